@@ -0,0 +1,73 @@
+// api.ts - Types of the API returned by activate() and of the commands' optional arguments
+import * as vscode from 'vscode';
+import { PatchFormat } from './codePatcher';
+
+/**
+ * How a target is chosen when a block matches:
+ * - 'interactive': pickers, dialogs and near-miss reports as for a pasted block
+ * - 'apply-if-unambiguous': take the best match unless another one comes within
+ *   tieBreakDelta of it (status 'ambiguous'); never asks anything
+ */
+export type PatchPolicy = 'interactive' | 'apply-if-unambiguous';
+
+export interface PatchRequest {
+    text: string;          // One block; a fence is unwrapped and its info string may name the file
+    uri?: vscode.Uri;      // Patch this file only; omitted: scan the workspace
+    format?: PatchFormat;  // Declared format; a block that reads as another one is refused
+    pathHint?: string;     // File the block belongs to; narrows a workspace scan
+    policy?: PatchPolicy;  // Default 'interactive'
+}
+
+export interface MatchInfo {
+    uri: vscode.Uri;
+    range: vscode.Range;   // Whole lines: from the first matched line up to the start of the line after
+    confidence: number;    // 0-1
+    contextLines: number;  // Unchanged lines of the block found around the change
+    applied: boolean;      // The region already reads as the patched code
+    normalizations: string[]; // Differences that had to be ignored, e.g. 'quotes', 'fuzzy'
+    detail?: string;       // E.g. per-hunk results or the replaced symbol
+}
+
+export type PatchOutcomeStatus =
+    | 'applied'
+    | 'created'          // The block became a new file
+    | 'already-applied'
+    | 'no-match'
+    | 'ambiguous'        // Only with 'apply-if-unambiguous'; see `candidates`
+    | 'skipped'          // Left out by the user in a multi-block review
+    | 'cancelled'
+    | 'failed';
+
+export interface PatchOutcome {
+    status: PatchOutcomeStatus;
+    uri?: vscode.Uri;
+    match?: MatchInfo;         // Where the block was applied (range before patching) or already is
+    candidates?: MatchInfo[];  // Every match of an ambiguous block, best first
+    block?: number;            // Index of the block in a multi-block response
+    message?: string;
+}
+
+/**
+ * Optional argument of the apply commands, e.g. from `executeCommand` or a
+ * keybinding's `args`. Without `text` the command reads the input box,
+ * clipboard or selection as usual.
+ */
+export interface PatchCommandArgs {
+    text?: string;
+    uri?: vscode.Uri | string; // A URI, an absolute path or a workspace-relative path
+    format?: PatchFormat;
+    pathHint?: string;
+    policy?: PatchPolicy;
+}
+
+/**
+ * `vscode.extensions.getExtension<AiCodePatcherApi>(id).activate()` resolves
+ * to this. `preview` shows the diff editor before writing, `apply` writes
+ * straight away; both resolve once the patch was written or given up.
+ */
+export interface AiCodePatcherApi {
+    readonly version: 1;
+    findMatches(request: Omit<PatchRequest, 'policy'>): Promise<MatchInfo[]>;
+    preview(request: PatchRequest): Promise<PatchOutcome>;
+    apply(request: PatchRequest): Promise<PatchOutcome>;
+}
@@ -0,0 +1,144 @@
+// matcherBench.ts - Compare the anchored matcher with the original brute-force search
+//
+// Usage: npm run bench
+
+import { CodePatcher, Match, PatchOptions } from '../codePatcher';
+
+/**
+ * The search as it was before anchoring: every window size, every start line,
+ * full-matrix Levenshtein for every comparison.
+ */
+function legacyFindMatches(fileContent: string, codeBlock: string, options: PatchOptions): Match[] {
+  const levenshtein = (str1: string, str2: string): number => {
+    const matrix: number[][] = [];
+    for (let i = 0; i <= str2.length; i++) matrix[i] = [i];
+    for (let j = 0; j <= str1.length; j++) matrix[0][j] = j;
+    for (let i = 1; i <= str2.length; i++) {
+      for (let j = 1; j <= str1.length; j++) {
+        matrix[i][j] = str2.charAt(i - 1) === str1.charAt(j - 1)
+          ? matrix[i - 1][j - 1]
+          : Math.min(matrix[i - 1][j - 1] + 1, matrix[i][j - 1] + 1, matrix[i - 1][j] + 1);
+      }
+    }
+    return matrix[str2.length][str1.length];
+  };
+  const linesMatch = (a: string, b: string): boolean => {
+    const n1 = a.trim();
+    const n2 = b.trim();
+    if (n1 === n2) return true;
+    if (!options.fuzzyMatch) return false;
+    const maxLen = Math.max(n1.length, n2.length);
+    return maxLen === 0 || 1 - levenshtein(n1, n2) / maxLen >= 0.9;
+  };
+
+  const fileLines = CodePatcher.normalizeLineEndings(fileContent).split('\n');
+  const blockLines = CodePatcher.normalizeLineEndings(codeBlock.trim()).split('\n');
+  const matches: Match[] = [];
+
+  for (let windowSize = blockLines.length; windowSize >= Math.max(3, Math.floor(blockLines.length / 2)); windowSize--) {
+    for (let fileStart = 0; fileStart <= fileLines.length - windowSize; fileStart++) {
+      let prefix = 0;
+      while (prefix < Math.min(blockLines.length, fileLines.length - fileStart) &&
+        linesMatch(blockLines[prefix], fileLines[fileStart + prefix])) prefix++;
+
+      const fileEnd = fileStart + windowSize - 1;
+      let suffix = 0;
+      while (suffix <= Math.min(blockLines.length - 1, fileEnd) &&
+        linesMatch(blockLines[blockLines.length - 1 - suffix], fileLines[fileEnd - suffix])) suffix++;
+
+      const contextMatchLength = prefix + suffix;
+      if (contextMatchLength >= 2) {
+        const confidence = Math.min(1.0, Math.min(1.0, contextMatchLength / blockLines.length) * 0.7 + (windowSize / blockLines.length) * 0.3);
+        if (confidence >= options.minConfidence!) {
+          matches.push({
+            startLine: fileStart,
+            endLine: fileStart + windowSize,
+            baseIndent: CodePatcher.detectIndent(fileLines[fileStart] ?? ''),
+            confidence,
+            similarity: confidence,
+            contextBefore: fileLines.slice(Math.max(0, fileStart - options.contextLines!), fileStart),
+            contextAfter: fileLines.slice(fileStart + windowSize, Math.min(fileLines.length, fileStart + windowSize + options.contextLines!)),
+            contextMatchLength
+          });
+        }
+      }
+    }
+    if (matches.length > 0 && matches[0].confidence > 0.7) break;
+  }
+
+  return matches.sort((a, b) =>
+    Math.abs(a.confidence - b.confidence) > 0.1 ? b.confidence - a.confidence : b.contextMatchLength - a.contextMatchLength
+  );
+}
+
+/**
+ * Deterministic pseudo-source file: functions with similar bodies so that
+ * fuzzy comparisons actually have work to do.
+ */
+function makeFile(lineCount: number, seed: number): string {
+  const lines: string[] = [];
+  let n = seed;
+  const next = () => (n = (n * 1103515245 + 12345) & 0x7fffffff);
+  for (let fn = 0; lines.length < lineCount; fn++) {
+    lines.push(`function handler${seed}_${fn}(request, response) {`);
+    lines.push(`    const value${fn % 7} = request.params[${next() % 50}];`);
+    lines.push(`    if (!value${fn % 7}) {`);
+    lines.push(`        return response.status(${400 + (next() % 5)}).send('missing value');`);
+    lines.push('    }');
+    lines.push(`    logger.info('handling ${fn}', { id: value${fn % 7}, attempt: ${next() % 10} });`);
+    lines.push(`    return service.process${fn % 13}(value${fn % 7});`);
+    lines.push('}');
+    lines.push('');
+  }
+  return lines.slice(0, lineCount).join('\n');
+}
+
+function time<T>(fn: () => T): { result: T; ms: number } {
+  const start = process.hrtime.bigint();
+  const result = fn();
+  return { result, ms: Number(process.hrtime.bigint() - start) / 1e6 };
+}
+
+function sameMatches(a: Match[], b: Match[]): boolean {
+  return a.length === b.length && a.every((m, i) =>
+    m.startLine === b[i].startLine && m.endLine === b[i].endLine &&
+    m.confidence === b[i].confidence && m.contextMatchLength === b[i].contextMatchLength
+  );
+}
+
+function run() {
+  const options: PatchOptions = { fuzzyMatch: true, minConfidence: 0.6, contextLines: 2, elisionMarkers: [] };
+  const scenarios = [
+    { name: 'single file, 500 lines', files: 1, lines: 500 },
+    { name: 'single file, 3000 lines', files: 1, lines: 3000 },
+    { name: 'workspace, 40 files x 400 lines', files: 40, lines: 400 }
+  ];
+
+  for (const scenario of scenarios) {
+    const files = Array.from({ length: scenario.files }, (_, i) => makeFile(scenario.lines, i + 1));
+    const targetLines = files[0].split('\n');
+    const at = Math.floor(targetLines.length / 2) - (Math.floor(targetLines.length / 2) % 9);
+
+    // Block: the function at `at` with one changed line in the middle
+    const block = targetLines.slice(at, at + 8);
+    block[3] = block[3].replace('missing value', 'value is required');
+    const codeBlock = block.join('\n');
+
+    // Warm up both implementations before timing
+    legacyFindMatches(files[0], codeBlock, options);
+    CodePatcher.findMatches(files[0], codeBlock, options);
+
+    const legacy = time(() => files.map(f => legacyFindMatches(f, codeBlock, options)));
+    const current = time(() => files.map(f => CodePatcher.findMatches(f, codeBlock, options)));
+    const identical = legacy.result.every((m, i) => sameMatches(m, current.result[i]));
+
+    console.log(
+      `${scenario.name.padEnd(34)} legacy ${legacy.ms.toFixed(1).padStart(9)} ms   ` +
+      `anchored ${current.ms.toFixed(1).padStart(8)} ms   ` +
+      `speedup ${(legacy.ms / Math.max(current.ms, 0.01)).toFixed(1).padStart(6)}x   ` +
+      `results ${identical ? 'identical' : 'DIFFERENT'}`
+    );
+  }
+}
+
+run();
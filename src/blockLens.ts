@@ -0,0 +1,185 @@
+// blockLens.ts - "Apply to workspace" / "Preview match" CodeLenses above fenced blocks in Markdown and plain-text notes
+import * as vscode from 'vscode';
+import { ResponseBlock, ResponseParser } from './responseParser';
+import { MatchInfo, PatchOutcome } from './api';
+
+/**
+ * Puts "Apply to workspace" and "Preview match" above every fenced code block
+ * in Markdown and plain-text documents, such as saved chats and design notes.
+ * A fence holding a multi-file diff or several SEARCH/REPLACE pairs is run as
+ * a multi-block response. The last outcome is shown next to the lenses until
+ * the document is closed.
+ */
+export class BlockLens implements vscode.CodeLensProvider, vscode.Disposable {
+    static readonly SELECTOR: vscode.DocumentSelector = [{ language: 'markdown' }, { language: 'plaintext' }];
+
+    private readonly outcomes = new Map<string, string>(); // Lens text by document and block contents
+    private readonly lensChanges = new vscode.EventEmitter<void>();
+    private readonly disposables: vscode.Disposable[] = [];
+
+    readonly onDidChangeCodeLenses = this.lensChanges.event;
+
+    /**
+     * `apply` runs the workspace flow on a fence's blocks; `find` scans for
+     * one block without writing (undefined when the scan could not run)
+     */
+    constructor(
+        private readonly apply: (blocks: ResponseBlock[]) => Promise<PatchOutcome[]>,
+        private readonly find: (block: ResponseBlock) => Promise<MatchInfo[] | undefined>
+    ) {
+        this.disposables.push(
+            vscode.languages.registerCodeLensProvider(BlockLens.SELECTOR, this),
+            vscode.commands.registerCommand('aiCodePatcher.lens.apply', (uri: vscode.Uri, line: number) => this.applyFence(uri, line)),
+            vscode.commands.registerCommand('aiCodePatcher.lens.preview', (uri: vscode.Uri, line: number) => this.previewFence(uri, line)),
+            vscode.workspace.onDidChangeConfiguration(e => {
+                if (e.affectsConfiguration('aiCodePatcher.codeLens')) this.lensChanges.fire();
+            }),
+            vscode.workspace.onDidCloseTextDocument(document => this.forget(document.uri)),
+            this.lensChanges
+        );
+    }
+
+    dispose() {
+        this.disposables.forEach(d => d.dispose());
+    }
+
+    provideCodeLenses(document: vscode.TextDocument): vscode.CodeLens[] {
+        if (!vscode.workspace.getConfiguration('aiCodePatcher').get<boolean>('codeLens', true)) {
+            return [];
+        }
+
+        const lenses: vscode.CodeLens[] = [];
+        for (const [line, blocks] of BlockLens.fences(document.getText())) {
+            const range = new vscode.Range(line, 0, line, 0);
+            lenses.push(
+                new vscode.CodeLens(range, { title: 'Apply to workspace', command: 'aiCodePatcher.lens.apply', arguments: [document.uri, line] }),
+                new vscode.CodeLens(range, { title: 'Preview match', command: 'aiCodePatcher.lens.preview', arguments: [document.uri, line] })
+            );
+            const last = this.outcomes.get(BlockLens.key(document.uri, blocks));
+            if (last) {
+                lenses.push(new vscode.CodeLens(range, { title: last, command: '' }));
+            }
+        }
+        return lenses;
+    }
+
+    /**
+     * Fenced blocks by the line of their opening fence. Text without fences
+     * gets no lenses: in notes it is prose, not a block.
+     */
+    static fences(text: string): Map<number, ResponseBlock[]> {
+        const fences = new Map<number, ResponseBlock[]>();
+        for (const block of ResponseParser.splitBlocks(text).filter(b => b.fenced)) {
+            fences.set(block.startLine, [...(fences.get(block.startLine) ?? []), block]);
+        }
+        return fences;
+    }
+
+    private async applyFence(uri: vscode.Uri, line: number): Promise<PatchOutcome[] | undefined> {
+        const blocks = await this.blocksAt(uri, line);
+        if (!blocks) return undefined;
+
+        const outcomes = await this.apply(blocks);
+        if (outcomes.some(o => o.status !== 'cancelled')) {
+            this.remember(uri, blocks, BlockLens.describe(outcomes));
+        }
+        return outcomes;
+    }
+
+    /**
+     * Show where the fence's blocks would go, without writing anything
+     */
+    private async previewFence(uri: vscode.Uri, line: number) {
+        const blocks = await this.blocksAt(uri, line);
+        if (!blocks) return;
+
+        const found: MatchInfo[] = [];
+        let matched = 0;
+        for (const block of blocks) {
+            const matches = await this.find(block);
+            if (!matches) return;
+            found.push(...matches);
+            if (matches.length > 0) matched++;
+        }
+
+        if (found.length === 0) {
+            this.remember(uri, blocks, '$(error) No match');
+            vscode.window.showWarningMessage('No match for the block in the workspace.');
+            return;
+        }
+        this.remember(uri, blocks, blocks.length > 1
+            ? `$(search) ${matched} of ${blocks.length} blocks match`
+            : `$(search) Best match ${BlockLens.where(found[0].uri, found[0].range)} (${(found[0].confidence * 100).toFixed(0)}%)`);
+
+        const items = found.map(m => ({
+            label: `${m.applied ? '$(check) ' : ''}${BlockLens.where(m.uri, m.range)}`,
+            description: `${m.applied ? 'already applied, ' : ''}${(m.confidence * 100).toFixed(0)}% confidence, ${m.contextLines} context lines`,
+            detail: m.detail,
+            match: m
+        }));
+        const picked = items.length === 1
+            ? items[0]
+            : await vscode.window.showQuickPick(items, { placeHolder: `Found ${items.length} matches. Choose one to reveal:`, matchOnDescription: true });
+        if (!picked) return;
+
+        await vscode.window.showTextDocument(picked.match.uri, {
+            selection: picked.match.range,
+            viewColumn: vscode.ViewColumn.Beside,
+            preview: true
+        });
+    }
+
+    /**
+     * The blocks of the fence opening at `line`, as the document reads now
+     */
+    private async blocksAt(uri: vscode.Uri, line: number): Promise<ResponseBlock[] | undefined> {
+        const document = await vscode.workspace.openTextDocument(uri);
+        const blocks = BlockLens.fences(document.getText()).get(line);
+        if (!blocks) {
+            vscode.window.showWarningMessage('The code block is no longer there. Try the lens again.');
+        }
+        return blocks;
+    }
+
+    private remember(uri: vscode.Uri, blocks: ResponseBlock[], text: string) {
+        this.outcomes.set(BlockLens.key(uri, blocks), text);
+        this.lensChanges.fire();
+    }
+
+    private forget(uri: vscode.Uri) {
+        const prefix = `${uri.toString()}\0`;
+        [...this.outcomes.keys()].filter(k => k.startsWith(prefix)).forEach(k => this.outcomes.delete(k));
+    }
+
+    /**
+     * Keyed by contents rather than line, so outcomes stay with their block
+     * while the notes around it are edited
+     */
+    private static key(uri: vscode.Uri, blocks: ResponseBlock[]): string {
+        return `${uri.toString()}\0${blocks.map(b => b.text).join('\0')}`;
+    }
+
+    private static where(uri: vscode.Uri | undefined, range?: vscode.Range): string {
+        if (!uri) return '';
+        return `${vscode.workspace.asRelativePath(uri, false)}${range ? `:${range.start.line + 1}` : ''}`;
+    }
+
+    private static describe(outcomes: PatchOutcome[]): string {
+        if (outcomes.length > 1) {
+            const done = outcomes.filter(o => ['applied', 'created', 'already-applied'].includes(o.status)).length;
+            return `${done === outcomes.length ? '$(check)' : '$(warning)'} Applied ${done} of ${outcomes.length} blocks`;
+        }
+
+        const [outcome] = outcomes;
+        switch (outcome.status) {
+            case 'applied': return `$(check) Applied to ${this.where(outcome.uri, outcome.match?.range)}`;
+            case 'created': return `$(check) Created ${this.where(outcome.uri, outcome.match?.range)}`;
+            case 'already-applied': return `$(check) Already applied in ${this.where(outcome.uri, outcome.match?.range)}`;
+            case 'no-match': return '$(error) No match';
+            case 'ambiguous': return `$(question) ${outcome.candidates?.length ?? 0} close matches`;
+            case 'skipped': return '$(circle-slash) Skipped';
+            case 'cancelled': return '$(circle-slash) Cancelled';
+            case 'failed': return `$(error) Failed${outcome.message ? `: ${outcome.message.slice(0, 80)}` : ''}`;
+        }
+    }
+}
@@ -0,0 +1,467 @@
+#!/usr/bin/env node
+// cli.ts - Headless command line interface for applying context patches outside VS Code
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { CodePatcher, Match, PatchOptions, PatchResult } from './codePatcher';
+import { ResponseParser, ResponseBlock } from './responseParser';
+import { WorkspaceSearch } from './workspaceSearch';
+import { Glob } from './glob';
+import { LineDiff } from './lineDiff';
+import { LineNormalizer } from './lineNormalizer';
+
+export const EXIT = {
+  applied: 0,
+  error: 1,
+  noMatch: 2,
+  ambiguous: 3
+} as const;
+
+interface CliOptions {
+  command: 'apply' | 'find';
+  file?: string;
+  workspace?: string;
+  block?: string;
+  dryRun: boolean;
+  json: boolean;
+  pick?: number;
+  include: string[];
+  exclude: string[];
+  maxFiles: number;
+  tieBreakDelta: number;
+  patch: PatchOptions;
+}
+
+interface Candidate {
+  file: string;
+  match: Match;
+  result: PatchResult;
+  pathScore?: number;
+}
+
+type BlockStatus = 'applied' | 'would-apply' | 'already-applied' | 'found' | 'no-match' | 'ambiguous';
+
+interface BlockReport {
+  index: number;
+  format: ResponseBlock['format'];
+  pathHint?: string;
+  status: BlockStatus;
+  file?: string;
+  line?: number;
+  confidence?: number;
+  error?: string;
+  debug?: string;
+  result?: PatchResult;
+  candidates?: Array<{ file: string; match: Match }>;
+  diff?: string;
+}
+
+class UsageError extends Error {}
+
+const USAGE = `Usage: code-patcher <apply|find> (--file <path> | --workspace <dir>) [options] < block
+
+Reads a code block (or a whole AI response with several fenced blocks) from
+stdin, or from --block <path>, and applies it to the best matching location.
+
+Targets:
+  --file <path>            Patch a single file
+  --workspace <dir>        Scan a directory for the best match per block
+
+Options:
+  --block <path>           Read the block from a file instead of stdin
+  --dry-run                Print a unified diff instead of writing files
+  --json                   Print PatchResult/Match details as JSON
+  --pick <n>               Use the n-th match/candidate (0-based) instead of the best
+  --min-confidence <n>     Minimum confidence (default 0.6)
+  --context-lines <n>      Context lines kept around matches (default 2)
+  --no-fuzzy               Disable fuzzy line matching
+  --fuzzy-threshold <n>    Line similarity for a fuzzy line match (default 0.9)
+  --profile <name>         Normalisation profile instead of picking one by file extension
+  --include <glob>         Files to scan (repeatable; default: extension defaults)
+  --exclude <glob>         Files to skip (repeatable; default: extension defaults)
+  --max-files <n>          Maximum number of files to scan (default 2000)
+  --tie-break-delta <n>    Confidence gap below which the top two are ambiguous (default 0.03)
+
+Exit codes:
+  0  applied (or would apply with --dry-run, already applied, or matches found with "find")
+  1  usage or I/O error
+  2  no match for at least one block
+  3  ambiguous match for at least one block
+`;
+
+function parseArgs(argv: string[]): CliOptions {
+  const [command, ...rest] = argv;
+  if (command !== 'apply' && command !== 'find') {
+    throw new UsageError(command ? `Unknown command: ${command}` : 'Missing command');
+  }
+
+  const options: CliOptions = {
+    command,
+    dryRun: false,
+    json: false,
+    include: [],
+    exclude: [],
+    maxFiles: WorkspaceSearch.DEFAULT_MAX_FILES,
+    tieBreakDelta: WorkspaceSearch.DEFAULT_TIE_BREAK_DELTA,
+    patch: { fuzzyMatch: true, minConfidence: 0.6, contextLines: 2 }
+  };
+
+  const value = (i: number): string => {
+    if (rest[i + 1] === undefined) {
+      throw new UsageError(`Missing value for ${rest[i]}`);
+    }
+    return rest[i + 1];
+  };
+  const number = (i: number): number => {
+    const n = Number(value(i));
+    if (Number.isNaN(n)) {
+      throw new UsageError(`Expected a number for ${rest[i]}`);
+    }
+    return n;
+  };
+
+  for (let i = 0; i < rest.length; i++) {
+    switch (rest[i]) {
+      case '--file': options.file = value(i++); break;
+      case '--workspace': options.workspace = value(i++); break;
+      case '--block': options.block = value(i++); break;
+      case '--dry-run': options.dryRun = true; break;
+      case '--json': options.json = true; break;
+      case '--pick': options.pick = number(i++); break;
+      case '--min-confidence': options.patch.minConfidence = number(i++); break;
+      case '--context-lines': options.patch.contextLines = number(i++); break;
+      case '--no-fuzzy': options.patch.fuzzyMatch = false; break;
+      case '--fuzzy-threshold': options.patch.fuzzyThreshold = number(i++); break;
+      case '--profile': {
+        const profile = value(i++);
+        if (!LineNormalizer.PROFILES[profile]) {
+          throw new UsageError(`Unknown profile: ${profile} (${Object.keys(LineNormalizer.PROFILES).join(', ')})`);
+        }
+        options.patch.normalization = LineNormalizer.PROFILES[profile];
+        break;
+      }
+      case '--include': options.include.push(value(i++)); break;
+      case '--exclude': options.exclude.push(value(i++)); break;
+      case '--max-files': options.maxFiles = number(i++); break;
+      case '--tie-break-delta': options.tieBreakDelta = number(i++); break;
+      case '-h':
+      case '--help':
+        throw new UsageError('');
+      default:
+        throw new UsageError(`Unknown option: ${rest[i]}`);
+    }
+  }
+
+  if (!options.file === !options.workspace) {
+    throw new UsageError('Specify exactly one of --file or --workspace');
+  }
+
+  return options;
+}
+
+function readStdin(): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    process.stdin.on('data', (chunk: Buffer) => chunks.push(chunk));
+    process.stdin.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    process.stdin.on('error', reject);
+  });
+}
+
+/**
+ * Walk `root` the way the extension's findFiles call does: include/exclude
+ * globs on workspace-relative paths, stopping after `maxFiles` files.
+ */
+function collectFiles(root: string, include: string, exclude: string, maxFiles: number): string[] {
+  const isIncluded = Glob.matcher(include);
+  const isExcluded = Glob.matcher(exclude);
+  const files: string[] = [];
+
+  const walk = (dir: string) => {
+    let entries: fs.Dirent[];
+    try {
+      entries = fs.readdirSync(dir, { withFileTypes: true });
+    } catch {
+      return;
+    }
+    entries.sort((a, b) => a.name.localeCompare(b.name));
+
+    for (const entry of entries) {
+      if (files.length >= maxFiles) return;
+
+      const full = path.join(dir, entry.name);
+      const rel = path.relative(root, full).split(path.sep).join('/');
+      if (isExcluded(rel)) continue;
+
+      if (entry.isDirectory()) {
+        walk(full);
+      } else if (entry.isFile() && isIncluded(rel)) {
+        files.push(full);
+      }
+    }
+  };
+
+  walk(root);
+  return files;
+}
+
+class Session {
+  // Current content per file, including edits made by earlier blocks
+  private readonly contents = new Map<string, string>();
+  private workspaceFiles?: string[];
+
+  constructor(private readonly options: CliOptions) {}
+
+  read(file: string): string | undefined {
+    if (!this.contents.has(file)) {
+      try {
+        const stat = fs.statSync(file);
+        if (stat.size > WorkspaceSearch.MAX_FILE_SIZE) return undefined;
+        this.contents.set(file, fs.readFileSync(file, 'utf8'));
+      } catch {
+        return undefined;
+      }
+    }
+    return this.contents.get(file);
+  }
+
+  write(file: string, content: string) {
+    this.contents.set(file, content);
+    if (!this.options.dryRun) {
+      fs.writeFileSync(file, content, 'utf8');
+    }
+  }
+
+  display(file: string): string {
+    const base = this.options.workspace ?? path.dirname(this.options.file!);
+    return path.relative(base, file).split(path.sep).join('/') || path.basename(file);
+  }
+
+  /**
+   * Patch options with the file's language, which picks the normalisation profile
+   */
+  patchOptions(file: string): PatchOptions {
+    return { ...this.options.patch, languageId: this.options.patch.languageId ?? LineNormalizer.languageForPath(file) };
+  }
+
+  targets(block: ResponseBlock): string[] {
+    if (this.options.file) {
+      return [path.resolve(this.options.file)];
+    }
+
+    if (!this.workspaceFiles) {
+      const include = this.options.include.length ? this.options.include : [WorkspaceSearch.DEFAULT_INCLUDE];
+      const exclude = this.options.exclude.length ? this.options.exclude : [WorkspaceSearch.DEFAULT_EXCLUDE];
+      this.workspaceFiles = collectFiles(
+        path.resolve(this.options.workspace!),
+        WorkspaceSearch.joinGlobs(include),
+        WorkspaceSearch.joinGlobs(exclude),
+        this.options.maxFiles
+      );
+    }
+
+    // Path hints narrow the scan when they name an existing file; partial hints only boost ranking
+    if (block.pathHint) {
+      const hinted = this.workspaceFiles.filter(f => WorkspaceSearch.matchesPathHint(this.display(f), block.pathHint!));
+      if (hinted.length > 0) return hinted;
+    }
+    return this.workspaceFiles;
+  }
+
+  /**
+   * Resolve one block to a candidate list and, for "apply", patch the winner
+   */
+  run(block: ResponseBlock): BlockReport {
+    const report: BlockReport = { index: block.index, format: block.format, pathHint: block.pathHint, status: 'no-match' };
+    const candidates: Candidate[] = [];
+    let lastFailure: PatchResult | undefined;
+
+    for (const file of this.targets(block)) {
+      const text = this.read(file);
+      if (!text) continue;
+
+      const result = CodePatcher.patch(text, block.text, this.patchOptions(file));
+      if (!result.success) {
+        lastFailure = result;
+        continue;
+      }
+
+      // Single-file mode keeps every match; workspace mode keeps the best per file
+      const matches = this.options.file ? result.matches : result.matches.slice(0, 1);
+      const pathScore = this.options.workspace && block.pathHint
+        ? WorkspaceSearch.pathHintScore(this.display(file), block.pathHint)
+        : undefined;
+      for (const match of matches) {
+        candidates.push({ file, match, result, pathScore });
+      }
+    }
+
+    if (this.options.workspace) {
+      candidates.sort((a, b) => WorkspaceSearch.compareCandidates(a, b));
+    }
+    report.candidates = candidates.map(c => ({ file: this.display(c.file), match: c.match }));
+
+    if (candidates.length === 0) {
+      report.error = lastFailure?.error ?? 'No matches found';
+      report.debug = lastFailure?.debug;
+      report.result = lastFailure;
+      return report;
+    }
+
+    if (this.options.command === 'find') {
+      report.status = 'found';
+      return report;
+    }
+
+    let chosen: Candidate | undefined;
+    const present = candidates.find(c => c.match.applied);
+    if (this.options.pick === undefined && present) {
+      // The block is already in place: report it instead of patching another match
+      report.status = 'already-applied';
+      report.file = this.display(present.file);
+      report.line = present.match.startLine + 1;
+      report.confidence = present.match.confidence;
+      report.result = present.result;
+      return report;
+    }
+    if (this.options.pick !== undefined) {
+      chosen = candidates[this.options.pick];
+      if (!chosen) {
+        // A usage error (exit 1), not a missing match
+        const range = candidates.length === 1 ? '0' : `0 to ${candidates.length - 1}`;
+        throw new UsageError(`--pick ${this.options.pick} is out of range: use ${range} (${candidates.length} candidate${candidates.length === 1 ? '' : 's'})`);
+      }
+    } else if (WorkspaceSearch.hasCloseTie(candidates, this.options.tieBreakDelta)) {
+      report.status = 'ambiguous';
+      report.error = `${candidates.length} candidates within ${this.options.tieBreakDelta} confidence; use --pick`;
+      return report;
+    } else {
+      chosen = candidates[0];
+    }
+
+    const before = this.read(chosen.file)!;
+    const after = CodePatcher.applyReplacement(before, chosen.match, block.text, this.patchOptions(chosen.file));
+    const name = this.display(chosen.file);
+
+    report.status = this.options.dryRun ? 'would-apply' : 'applied';
+    report.file = name;
+    report.line = chosen.match.startLine + 1;
+    report.confidence = chosen.match.confidence;
+    report.result = chosen.result;
+    report.diff = LineDiff.unified(
+      CodePatcher.normalizeLineEndings(before),
+      CodePatcher.normalizeLineEndings(after),
+      name
+    );
+
+    this.write(chosen.file, after);
+    return report;
+  }
+}
+
+function exitCodeFor(reports: BlockReport[]): number {
+  if (reports.some(r => r.status === 'ambiguous')) return EXIT.ambiguous;
+  if (reports.some(r => r.status === 'no-match')) return EXIT.noMatch;
+  return EXIT.applied;
+}
+
+function printText(reports: BlockReport[], options: CliOptions) {
+  for (const r of reports) {
+    const label = reports.length > 1 ? `block ${r.index + 1}: ` : '';
+    switch (r.status) {
+      case 'applied':
+        console.log(`${label}applied to ${r.file}:${r.line} (${(r.confidence! * 100).toFixed(0)}% confidence)`);
+        break;
+      case 'would-apply':
+        process.stdout.write(r.diff || `${label}no changes for ${r.file}\n`);
+        break;
+      case 'already-applied':
+        console.log(`${label}already applied in ${r.file}:${r.line}, nothing to do`);
+        break;
+      case 'found':
+        for (const c of r.candidates ?? []) {
+          const normalized = c.match.normalizations ? `\tnormalized: ${c.match.normalizations.join(', ')}` : '';
+          const applied = c.match.applied ? '\talready applied' : '';
+          console.log(`${label}${c.file}:${c.match.startLine + 1}\t${(c.match.confidence * 100).toFixed(0)}%\t${c.match.contextMatchLength} context lines${normalized}${applied}`);
+        }
+        break;
+      case 'ambiguous':
+        console.error(`${label}ambiguous: ${r.error}`);
+        for (const [i, c] of (r.candidates ?? []).slice(0, 10).entries()) {
+          console.error(`  [${i}] ${c.file}:${c.match.startLine + 1} (${(c.match.confidence * 100).toFixed(0)}%)`);
+        }
+        break;
+      case 'no-match':
+        console.error(`${label}no match: ${r.error}${r.debug ? `\n  ${r.debug}` : ''}`);
+        break;
+    }
+  }
+  if (options.dryRun && reports.every(r => r.status !== 'would-apply')) {
+    console.error('Nothing would be applied.');
+  }
+}
+
+export async function main(argv: string[]): Promise<number> {
+  let options: CliOptions;
+  try {
+    options = parseArgs(argv);
+  } catch (err) {
+    if (err instanceof UsageError) {
+      if (err.message) console.error(err.message + '\n');
+      console.error(USAGE);
+      return EXIT.error;
+    }
+    throw err;
+  }
+
+  let input: string;
+  try {
+    input = options.block ? fs.readFileSync(options.block, 'utf8') : await readStdin();
+  } catch (err) {
+    console.error(`Cannot read block: ${(err as Error).message}`);
+    return EXIT.error;
+  }
+
+  const blocks = ResponseParser.splitBlocks(input);
+  if (blocks.length === 0) {
+    console.error('Empty code block provided');
+    return EXIT.error;
+  }
+  if (options.file && !fs.existsSync(options.file)) {
+    console.error(`File not found: ${options.file}`);
+    return EXIT.error;
+  }
+
+  // A failing block (an out-of-range --pick, a failed write) stops the run, but
+  // the blocks before it may already be written and are still reported
+  const session = new Session(options);
+  const reports: BlockReport[] = [];
+  let failure: string | undefined;
+  for (const block of blocks) {
+    try {
+      reports.push(session.run(block));
+    } catch (err) {
+      failure = (blocks.length > 1 ? `block ${block.index + 1}: ` : '') + (err as Error).message;
+      break;
+    }
+  }
+
+  if (options.json) {
+    console.log(JSON.stringify({ blocks: reports, error: failure }, null, 2));
+  } else {
+    printText(reports, options);
+    if (failure) console.error(failure);
+  }
+
+  return failure ? EXIT.error : exitCodeFor(reports);
+}
+
+if (require.main === module) {
+  main(process.argv.slice(2)).then(
+    code => process.exit(code),
+    (err) => {
+      console.error(err);
+      process.exit(EXIT.error);
+    }
+  );
+}
@@ -1,5 +1,21 @@
 // codePatcher.ts - Smart Context-Based Matching
 
+import { createHash } from 'crypto';
+import { UnifiedDiff, FileDiff, DiffHunk } from './unifiedDiff';
+import { SearchReplace, SearchReplaceBlock } from './searchReplace';
+import { LineNormalizer, NormalizationStep } from './lineNormalizer';
+import { LineEndings } from './lineEndings';
+
+export type PatchFormat = 'context' | 'unified-diff' | 'search-replace';
+
+/**
+ * Whether a patch is already in the file:
+ * - pending: the matched region needs changes
+ * - partial: some hunks are already there, the others still need changes
+ * - applied: the region already reads as the patched code; nothing to do
+ */
+export type PatchStatus = 'pending' | 'partial' | 'applied';
+
 export interface Match {
   startLine: number;
   endLine: number;
@@ -9,11 +25,36 @@ export interface Match {
   contextAfter: string[];
   similarity: number;
   contextMatchLength: number; // How many context lines matched
+  replacement?: string[]; // Final lines for the matched range, when not derived from the block
+  normalizations?: string[]; // Normalisation steps (and "fuzzy") some matched lines needed
+  applied?: boolean;         // Applying would change nothing: the patched code is already there
+}
+
+export interface MatchRelocation {
+  match: Match;
+  moved: boolean;   // Found at a different line than before
+  changed: boolean; // The matched lines differ from the fingerprinted ones
+}
+
+export interface HunkResult {
+  index: number;
+  header: string;
+  success: boolean;
+  startLine?: number; // Matched range in the original file (0-based, end exclusive)
+  endLine?: number;
+  offset?: number;    // Distance from the line number given in the hunk header
+  method?: 'exact' | 'offset' | 'fuzzy' | 'context';
+  confidence?: number;
+  applied?: boolean;  // The hunk's new side is already in the file
+  error?: string;
 }
 
 export interface PatchResult {
   success: boolean;
   matches: Match[];
+  format?: PatchFormat;
+  hunks?: HunkResult[];
+  status?: PatchStatus; // Set when successful, from the best match
   error?: string;
   debug?: string;
 }
@@ -22,38 +63,112 @@ export interface PatchOptions {
   fuzzyMatch?: boolean;
   minConfidence?: number;
   contextLines?: number;
+  elisionMarkers?: string[]; // Regex sources for "... existing code ..." lines
+  indentStyle?: IndentStyle;  // Target indentation; detected from the file when omitted
+  languageId?: string;        // Target file language; selects the normalisation profile
+  normalization?: Array<string | NormalizationStep>; // Overrides the profile: built-in step names or custom steps
+  fuzzyThreshold?: number;    // Line similarity (0-1) needed for a fuzzy line match
+}
+
+export interface IndentStyle {
+  insertSpaces: boolean;
+  tabSize: number; // Indent width in columns (also the width of a tab)
+}
+
+/**
+ * Compares block line `blockIndex` with file line `fileIndex`
+ */
+export interface LineMatcher {
+  (blockIndex: number, fileIndex: number): boolean;
+  positionsOf(blockIndex: number): number[]; // File lines matching a block line, ascending
+}
+
+/**
+ * Where one concrete segment of an elided block sits in the file
+ */
+interface SegmentPlacement {
+  start: number;
+  end: number;
+  confidence: number;
+  matched: number;
+  anchorBlock: number; // Segment line lined up with anchorFile, for re-indenting
+  anchorFile: number;
+  normalizations?: string[];
 }
 
 export class CodePatcher {
+  static readonly DEFAULT_FUZZY_THRESHOLD = 0.9;
+
+  /**
+   * Lines AI answers use to abbreviate unchanged code, grouped by comment style.
+   * Patterns are tested case-insensitively against the trimmed line.
+   */
+  static readonly DEFAULT_ELISION_MARKERS: Record<string, string[]> = {
+    line: [
+      '^(//+|#+|--|;+)\\s*(\\.{3}|…)',
+      '^(//+|#+|--)\\s*\\(?(rest|remaining|existing|other|unchanged|previous)\\b.*\\b(code|unchanged|same|before|here|methods|functions|omitted)\\b'
+    ],
+    block: [
+      '^\\{?/\\*+\\s*(\\.{3}|…).*\\*/\\}?$',
+      '^\\{?/\\*+\\s*(rest|remaining|existing|other|unchanged)\\b.*\\*/\\}?$'
+    ],
+    markup: [
+      '^<!--\\s*(\\.{3}|…|rest|remaining|existing|unchanged).*-->$'
+    ]
+  };
+
   /**
    * Calculate Levenshtein distance between two strings
    */
   static levenshteinDistance(str1: string, str2: string): number {
-    const matrix: number[][] = [];
+    return this.boundedLevenshtein(str1, str2, Math.max(str1.length, str2.length));
+  }
 
-    for (let i = 0; i <= str2.length; i++) {
-      matrix[i] = [i];
+  /**
+   * Levenshtein distance using two rows of memory. Only cells within
+   * `maxDistance` of the diagonal are computed, and the search gives up as
+   * soon as the distance must exceed `maxDistance` (returning `maxDistance + 1`).
+   */
+  static boundedLevenshtein(str1: string, str2: string, maxDistance: number): number {
+    if (Math.abs(str1.length - str2.length) > maxDistance) {
+      return maxDistance + 1;
     }
 
-    for (let j = 0; j <= str1.length; j++) {
-      matrix[0][j] = j;
+    // Keep the shorter string on the inner loop
+    const [long, short] = str1.length >= str2.length ? [str1, str2] : [str2, str1];
+    const outside = maxDistance + 1;
+    let previous = new Array<number>(short.length + 1);
+    let current = new Array<number>(short.length + 1);
+
+    for (let j = 0; j <= short.length; j++) {
+      previous[j] = j <= maxDistance ? j : outside;
     }
 
-    for (let i = 1; i <= str2.length; i++) {
-      for (let j = 1; j <= str1.length; j++) {
-        if (str2.charAt(i - 1) === str1.charAt(j - 1)) {
-          matrix[i][j] = matrix[i - 1][j - 1];
-        } else {
-          matrix[i][j] = Math.min(
-            matrix[i - 1][j - 1] + 1,
-            matrix[i][j - 1] + 1,
-            matrix[i - 1][j] + 1
-          );
-        }
+    for (let i = 1; i <= long.length; i++) {
+      const from = Math.max(1, i - maxDistance);
+      const to = Math.min(short.length, i + maxDistance);
+      current[0] = i <= maxDistance ? i : outside;
+      if (from > 1) current[from - 1] = outside;
+
+      let rowMin = current[0];
+      const ch = long.charCodeAt(i - 1);
+
+      for (let j = from; j <= to; j++) {
+        const cost = ch === short.charCodeAt(j - 1)
+          ? previous[j - 1]
+          : Math.min(previous[j - 1], current[j - 1], previous[j]) + 1;
+        current[j] = cost > outside ? outside : cost;
+        if (current[j] < rowMin) rowMin = current[j];
       }
+      if (to < short.length) current[to + 1] = outside;
+
+      if (rowMin > maxDistance) {
+        return outside;
+      }
+      [previous, current] = [current, previous];
     }
 
-    return matrix[str2.length][str1.length];
+    return Math.min(previous[short.length], outside);
   }
 
   /**
@@ -71,43 +186,201 @@ export class CodePatcher {
    * Detect indentation style and amount from a line
    */
   static detectIndent(line: string): string {
-    const match = line.match(/^(\s+)/);
+    const match = line.match(/^([^\S\uFEFF]+)/); // A byte order mark is not indentation
     return match ? match[1] : '';
   }
 
+  /**
+   * Width of an indent string in columns, expanding tabs to tab stops
+   */
+  static indentColumns(indent: string, tabSize: number): number {
+    let cols = 0;
+    for (const ch of indent) {
+      cols = ch === '\t' ? cols + tabSize - (cols % tabSize) : cols + 1;
+    }
+    return cols;
+  }
+
+  /**
+   * Render a column count in the given indent style
+   */
+  static renderIndent(cols: number, style: IndentStyle): string {
+    if (style.insertSpaces) {
+      return ' '.repeat(cols);
+    }
+    return '\t'.repeat(Math.floor(cols / style.tabSize)) + ' '.repeat(cols % style.tabSize);
+  }
+
+  /**
+   * Guess tabs vs spaces and the indent width from existing lines
+   */
+  static detectIndentStyle(lines: string[], fallback: IndentStyle = { insertSpaces: true, tabSize: 4 }): IndentStyle {
+    let tabLines = 0;
+    let spaceLines = 0;
+    let previous = 0;
+    const deltas = new Map<number, number>();
+
+    for (const line of lines) {
+      if (line.trim() === '') continue;
+      const indent = this.detectIndent(line);
+      if (indent.startsWith('\t')) {
+        tabLines++;
+        continue;
+      }
+      if (indent.length > 0) spaceLines++;
+
+      // Width changes between consecutive space-indented lines reveal the unit
+      const delta = Math.abs(indent.length - previous);
+      if (delta > 1 && delta <= 8) {
+        deltas.set(delta, (deltas.get(delta) ?? 0) + 1);
+      }
+      previous = indent.length;
+    }
+
+    if (tabLines === 0 && spaceLines === 0) {
+      return fallback;
+    }
+    if (tabLines > spaceLines) {
+      return { insertSpaces: false, tabSize: fallback.tabSize };
+    }
+
+    let unit = fallback.tabSize;
+    let best = 0;
+    for (const [delta, count] of deltas) {
+      if (count > best || (count === best && delta < unit)) {
+        unit = delta;
+        best = count;
+      }
+    }
+    return { insertSpaces: true, tabSize: unit };
+  }
+
+  /**
+   * Re-indent block lines for a new location. The block keeps its own nesting:
+   * its indent levels are measured relative to its shallowest line, the line
+   * at `anchorIndex` is placed at `targetIndent`, and every level is rendered
+   * in the target style (tabs vs spaces and indent width).
+   */
+  static reindentLines(
+    lines: string[],
+    anchorIndex: number,
+    targetIndent: string,
+    style: IndentStyle
+  ): string[] {
+    const blockStyle = this.detectIndentStyle(lines, style);
+    const blockUnit = Math.max(1, blockStyle.tabSize);
+    const targetUnit = Math.max(1, style.tabSize);
+
+    const columns = lines.map(line =>
+      line.trim() === '' ? -1 : this.indentColumns(this.detectIndent(line), blockStyle.tabSize)
+    );
+    const present = columns.filter(c => c >= 0);
+    if (present.length === 0) {
+      return lines.map(() => '');
+    }
+    const minCols = Math.min(...present);
+
+    // Convert a block column offset (relative to its shallowest line) to target columns
+    const convert = (relative: number) =>
+      Math.floor(relative / blockUnit) * targetUnit + (relative % blockUnit);
+
+    const anchorCols = columns[anchorIndex] >= 0 ? columns[anchorIndex] : minCols;
+    const targetCols = this.indentColumns(targetIndent, style.tabSize);
+    const baseCols = Math.max(0, targetCols - convert(anchorCols - minCols));
+
+    return lines.map((line, i) => {
+      if (columns[i] < 0) return '';
+      return this.renderIndent(baseCols + convert(columns[i] - minCols), style) + line.trim();
+    });
+  }
+
+  /**
+   * Drop leading blank lines and trailing whitespace, keeping the first line's indent
+   */
+  static trimBlankLines(text: string): string {
+    return text.replace(/^(?:[ \t]*(?:\r\n|\r|\n))+/, '').trimEnd();
+  }
+
   /**
    * Normalize a line for comparison
    */
-  static normalizeLine(line: string): string {
-    return line.trim();
+  static normalizeLine(line: string, pipeline: NormalizationStep[] = []): string {
+    return LineNormalizer.normalize(line, pipeline);
+  }
+
+  private static readonly pipelines = new WeakMap<PatchOptions, NormalizationStep[]>();
+
+  /**
+   * Normalisation steps for a comparison, see LineNormalizer.pipeline. Built
+   * once per options object: the matchers compare lines with the same options
+   * many thousand times.
+   */
+  static pipelineFor(options: PatchOptions): NormalizationStep[] {
+    let pipeline = this.pipelines.get(options);
+    if (!pipeline) {
+      pipeline = LineNormalizer.pipeline(options.normalization, options.languageId);
+      this.pipelines.set(options, pipeline);
+    }
+    return pipeline;
   }
 
   /**
    * Check if two lines match (normalized)
    */
-  static linesMatch(line1: string, line2: string, fuzzy: boolean = true): boolean {
-    const norm1 = this.normalizeLine(line1);
-    const norm2 = this.normalizeLine(line2);
+  static linesMatch(line1: string, line2: string, fuzzy: boolean = true, options: PatchOptions = {}): boolean {
+    return this.compareLines(line1, line2, fuzzy, options) !== undefined;
+  }
 
-    if (norm1 === norm2) return true;
+  /**
+   * Compare two lines and report what it took: the normalisation steps that
+   * fired, plus "fuzzy" for a near match. Undefined when they do not match.
+   */
+  static compareLines(line1: string, line2: string, fuzzy: boolean = true, options: PatchOptions = {}): string[] | undefined {
+    const result = LineNormalizer.compare(line1, line2, this.pipelineFor(options));
+    if (result.equal) return result.fired;
 
-    if (fuzzy) {
-      const similarity = this.similarityRatio(norm1, norm2);
-      return similarity >= 0.9;
+    const [norm1, norm2] = result.normalized;
+    if (fuzzy && this.isSimilar(norm1, norm2, options.fuzzyThreshold ?? this.DEFAULT_FUZZY_THRESHOLD)) {
+      return [...result.fired, 'fuzzy'];
     }
 
-    return false;
+    return undefined;
+  }
+
+  /**
+   * Everything the given matched line pairs needed, see compareLines.
+   * Undefined when they all matched as they are.
+   */
+  static normalizationsUsed(pairs: Array<[string, string]>, fuzzy: boolean, options: PatchOptions): string[] | undefined {
+    const used = new Set<string>();
+    for (const [a, b] of pairs) {
+      this.compareLines(a, b, fuzzy, options)?.forEach(name => used.add(name));
+    }
+    return used.size > 0 ? [...used] : undefined;
+  }
+
+  /**
+   * similarityRatio(a, b) >= threshold, without computing distances that
+   * cannot pass (length filter, then bounded edit distance)
+   */
+  static isSimilar(norm1: string, norm2: string, threshold: number): boolean {
+    const maxLen = Math.max(norm1.length, norm2.length);
+    if (maxLen === 0) return true;
+
+    const bound = Math.floor(maxLen * (1 - threshold)) + 1;
+    const distance = this.boundedLevenshtein(norm1, norm2, bound);
+    return 1 - (distance / maxLen) >= threshold;
   }
 
   /**
    * Find the longest common prefix between code block and a file location
    */
-  static findCommonPrefix(blockLines: string[], fileLines: string[], startIndex: number, fuzzy: boolean): number {
+  static findCommonPrefix(blockLines: string[], fileLines: string[], startIndex: number, fuzzy: boolean, options: PatchOptions = {}): number {
     let matchCount = 0;
     const maxCheck = Math.min(blockLines.length, fileLines.length - startIndex);
 
     for (let i = 0; i < maxCheck; i++) {
-      if (this.linesMatch(blockLines[i], fileLines[startIndex + i], fuzzy)) {
+      if (this.linesMatch(blockLines[i], fileLines[startIndex + i], fuzzy, options)) {
         matchCount++;
       } else {
         break;
@@ -120,13 +393,13 @@ export class CodePatcher {
   /**
    * Find the longest common suffix between code block and a file location
    */
-  static findCommonSuffix(blockLines: string[], fileLines: string[], endIndex: number, fuzzy: boolean): number {
+  static findCommonSuffix(blockLines: string[], fileLines: string[], endIndex: number, fuzzy: boolean, options: PatchOptions = {}): number {
     let matchCount = 0;
     const blockEnd = blockLines.length - 1;
     const fileEnd = endIndex;
 
     for (let i = 0; i <= Math.min(blockEnd, fileEnd); i++) {
-      if (this.linesMatch(blockLines[blockEnd - i], fileLines[fileEnd - i], fuzzy)) {
+      if (this.linesMatch(blockLines[blockEnd - i], fileLines[fileEnd - i], fuzzy, options)) {
         matchCount++;
       } else {
         break;
@@ -143,6 +416,17 @@ export class CodePatcher {
     return text.replace(/\r\n/g, '\n').replace(/\r/g, '\n');
   }
 
+  /**
+   * A file's lines for matching and replacing, split at any line ending and
+   * without the byte order mark, which applyReplacement puts back. The empty
+   * "line" after a final newline is left out so no match can take it.
+   */
+  static fileLines(fileContent: string): string[] {
+    const { lines } = LineEndings.split(fileContent);
+    if (lines.length > 1 && lines[lines.length - 1] === '') lines.pop();
+    return lines;
+  }
+
   /**
    * Find best match by looking for longest context match
    */
@@ -159,32 +443,70 @@ export class CodePatcher {
     };
 
     // Normalize line endings for both file and code block
-    const normalizedFile = this.normalizeLineEndings(fileContent);
-    const normalizedBlock = this.normalizeLineEndings(codeBlock.trim());
+    const normalizedBlock = this.normalizeLineEndings(this.trimBlankLines(codeBlock));
 
-    const fileLines = normalizedFile.split('\n');
+    const fileLines = this.fileLines(fileContent);
     const blockLines = normalizedBlock.split('\n');
 
     if (blockLines.length === 0) {
       return [];
     }
 
+    const markers = this.compileElisionMarkers(defaultOptions.elisionMarkers);
+    if (blockLines.some(line => this.isElisionLine(line, markers))) {
+      return this.findElidedMatches(fileLines, blockLines, markers, defaultOptions);
+    }
+
+    return this.findWindowMatches(fileLines, blockLines, defaultOptions);
+  }
+
+  /**
+   * Slide windows of decreasing size over the file and score each location by
+   * how many block lines match at its start (prefix) and end (suffix)
+   */
+  static findWindowMatches(
+    fileLines: string[],
+    blockLines: string[],
+    defaultOptions: PatchOptions
+  ): Match[] {
     const matches: Match[] = [];
-    const debugInfo: string[] = [];
+    const blockLength = blockLines.length;
+    const fileLength = fileLines.length;
+    const lineMatches = this.createLineMatcher(blockLines, fileLines, defaultOptions.fuzzyMatch!, defaultOptions);
+
+    // Anchors: file lines that can start a prefix match or end a suffix match.
+    // Every window scored below has at least one of these at its edge.
+    const prefixAt = new Map<number, number>();
+    for (const start of lineMatches.positionsOf(0)) {
+      let count = 0;
+      while (count < blockLength && start + count < fileLength && lineMatches(count, start + count)) count++;
+      prefixAt.set(start, count);
+    }
 
-    debugInfo.push(`Searching for ${blockLines.length} lines in ${fileLines.length} line file`);
-    debugInfo.push(`First block line: "${blockLines[0].substring(0, 50)}"`);
-    debugInfo.push(`Last block line: "${blockLines[blockLines.length - 1].substring(0, 50)}"`);
+    const suffixAt = new Map<number, number>();
+    for (const end of lineMatches.positionsOf(blockLength - 1)) {
+      let count = 0;
+      while (count < blockLength && end - count >= 0 && lineMatches(blockLength - 1 - count, end - count)) count++;
+      suffixAt.set(end, count);
+    }
 
     // Try different window sizes (from exact match to much smaller)
-    for (let windowSize = blockLines.length; windowSize >= Math.max(3, Math.floor(blockLines.length / 2)); windowSize--) {
-      for (let fileStart = 0; fileStart <= fileLines.length - windowSize; fileStart++) {
+    for (let windowSize = blockLength; windowSize >= Math.max(3, Math.floor(blockLength / 2)); windowSize--) {
+      const starts = new Set<number>(prefixAt.keys());
+      for (const end of suffixAt.keys()) {
+        starts.add(end - windowSize + 1);
+      }
+      const orderedStarts = [...starts]
+        .filter(start => start >= 0 && start <= fileLength - windowSize)
+        .sort((a, b) => a - b);
+
+      for (const fileStart of orderedStarts) {
         // Check prefix match
-        const prefixMatch = this.findCommonPrefix(blockLines, fileLines, fileStart, defaultOptions.fuzzyMatch!);
+        const prefixMatch = prefixAt.get(fileStart) ?? 0;
 
         // Check suffix match
         const fileEnd = fileStart + windowSize - 1;
-        const suffixMatch = this.findCommonSuffix(blockLines, fileLines, fileEnd, defaultOptions.fuzzyMatch!);
+        const suffixMatch = suffixAt.get(fileEnd) ?? 0;
 
         // Total context lines that match
         const contextMatchLength = prefixMatch + suffixMatch;
@@ -192,8 +514,8 @@ export class CodePatcher {
         // Must have at least 2 matching context lines (1 before + 1 after, or 2 before, or 2 after)
         if (contextMatchLength >= 2 && (prefixMatch >= 1 || suffixMatch >= 1)) {
           // Calculate confidence based on context match quality
-          const contextRatio = Math.min(1.0, contextMatchLength / blockLines.length);
-          const sizeRatio = windowSize / blockLines.length;
+          const contextRatio = Math.min(1.0, contextMatchLength / blockLength);
+          const sizeRatio = windowSize / blockLength;
           const confidence = Math.min(1.0, (contextRatio * 0.7) + (sizeRatio * 0.3));
 
           if (confidence >= defaultOptions.minConfidence!) {
@@ -205,9 +527,13 @@ export class CodePatcher {
             );
             const contextAfter = fileLines.slice(
               fileStart + windowSize,
-              Math.min(fileLines.length, fileStart + windowSize + defaultOptions.contextLines!)
+              Math.min(fileLength, fileStart + windowSize + defaultOptions.contextLines!)
             );
 
+            const pairs: Array<[string, string]> = [];
+            for (let i = 0; i < prefixMatch; i++) pairs.push([blockLines[i], fileLines[fileStart + i]]);
+            for (let i = 0; i < suffixMatch; i++) pairs.push([blockLines[blockLength - 1 - i], fileLines[fileEnd - i]]);
+
             matches.push({
               startLine: fileStart,
               endLine: fileStart + windowSize,
@@ -216,7 +542,8 @@ export class CodePatcher {
               similarity: confidence,
               contextBefore,
               contextAfter,
-              contextMatchLength
+              contextMatchLength,
+              normalizations: this.normalizationsUsed(pairs, defaultOptions.fuzzyMatch!, defaultOptions)
             });
           }
         }
@@ -242,41 +569,398 @@ export class CodePatcher {
       return b.contextMatchLength - a.contextMatchLength;
     });
 
-    debugInfo.push(`Found ${uniqueMatches.length} potential matches`);
-
     return uniqueMatches;
   }
 
   /**
-   * Apply replacement at a specific match location
+   * Memoised line comparison between one block and one file. Lines are
+   * normalised once, exact matches come from a hash index, and fuzzy
+   * comparisons only run the bounded edit distance on length-compatible lines.
+   */
+  static createLineMatcher(blockLines: string[], fileLines: string[], fuzzy: boolean, options: PatchOptions = {}): LineMatcher {
+    const pipeline = this.pipelineFor(options);
+    const threshold = options.fuzzyThreshold ?? this.DEFAULT_FUZZY_THRESHOLD;
+    const normBlock = blockLines.map(line => this.normalizeLine(line, pipeline));
+    const normFile = fileLines.map(line => this.normalizeLine(line, pipeline));
+    const cache = new Map<number, boolean>();
+
+    let index: Map<string, number[]> | undefined;
+    const exactIndex = () => {
+      if (!index) {
+        index = new Map();
+        normFile.forEach((line, i) => {
+          const positions = index!.get(line);
+          if (positions) positions.push(i);
+          else index!.set(line, [i]);
+        });
+      }
+      return index;
+    };
+
+    const matcher = ((blockIndex: number, fileIndex: number): boolean => {
+      const key = blockIndex * normFile.length + fileIndex;
+      let result = cache.get(key);
+      if (result === undefined) {
+        const a = normBlock[blockIndex];
+        const b = normFile[fileIndex];
+        result = a === b || (fuzzy && this.isSimilar(a, b, threshold));
+        cache.set(key, result);
+      }
+      return result;
+    }) as LineMatcher;
+
+    matcher.positionsOf = (blockIndex: number): number[] => {
+      const exact = exactIndex().get(normBlock[blockIndex]) ?? [];
+      if (!fuzzy) {
+        return exact;
+      }
+      const positions: number[] = [];
+      for (let i = 0; i < normFile.length; i++) {
+        if (matcher(blockIndex, i)) positions.push(i);
+      }
+      return positions;
+    };
+
+    return matcher;
+  }
+
+  /**
+   * Flatten configured marker patterns into regexes (defaults when not configured)
+   */
+  static compileElisionMarkers(patterns?: string[]): RegExp[] {
+    const sources = patterns ?? Object.values(this.DEFAULT_ELISION_MARKERS).flat();
+    const compiled: RegExp[] = [];
+    for (const source of sources) {
+      try {
+        compiled.push(new RegExp(source, 'i'));
+      } catch {
+        // Ignore invalid user patterns rather than failing the whole match
+      }
+    }
+    return compiled;
+  }
+
+  /**
+   * Is this line an elision comment such as "// ... existing code ..."?
+   */
+  static isElisionLine(line: string, markers: RegExp[]): boolean {
+    const trimmed = line.trim();
+    return trimmed !== '' && markers.some(re => re.test(trimmed));
+  }
+
+  /**
+   * Match a block containing elision markers. Each concrete segment between
+   * markers is anchored in order, and the file lines the markers stand for
+   * are kept as they are in the replacement.
+   */
+  static findElidedMatches(
+    fileLines: string[],
+    blockLines: string[],
+    markers: RegExp[],
+    options: PatchOptions
+  ): Match[] {
+    const segments: string[][] = [[]];
+    for (const line of blockLines) {
+      if (this.isElisionLine(line, markers)) {
+        segments.push([]);
+      } else {
+        segments[segments.length - 1].push(line);
+      }
+    }
+    const concrete = segments
+      .map(seg => this.trimBlankEdges(seg))
+      .filter(seg => seg.length > 0);
+
+    if (concrete.length === 0) {
+      return [];
+    }
+
+    const totalLines = concrete.reduce((sum, seg) => sum + seg.length, 0);
+    const contextLines = options.contextLines ?? 2;
+    const style = options.indentStyle ?? this.detectIndentStyle(fileLines);
+    const matches: Match[] = [];
+
+    const firstPlacements = this.placeSegment(fileLines, concrete[0], 0, options, 'first')
+      .sort((a, b) => b.confidence - a.confidence)
+      .slice(0, 50);
+
+    for (const first of firstPlacements) {
+      const placements = [first];
+
+      for (let k = 1; k < concrete.length; k++) {
+        const previous = placements[k - 1];
+        const role = k === concrete.length - 1 ? 'last' : 'middle';
+        // Expected indent shift comes from how the first segment lined up
+        const shift = this.detectIndent(fileLines[first.anchorFile]).length - this.detectIndent(concrete[0][first.anchorBlock]).length;
+
+        const next = this.placeSegment(fileLines, concrete[k], previous.end, options, role)
+          .map(p => ({
+            ...p,
+            indentOk: this.detectIndent(fileLines[p.anchorFile]).length === this.detectIndent(concrete[k][p.anchorBlock]).length + shift
+          }))
+          .sort((a, b) =>
+            Number(b.indentOk) - Number(a.indentOk) ||
+            (Math.abs(b.confidence - a.confidence) > 0.1 ? b.confidence - a.confidence : 0) ||
+            b.matched - a.matched ||
+            (a.end - a.start) - (b.end - b.start) ||
+            a.start - b.start
+          )[0];
+
+        if (!next) break;
+        placements.push(next);
+      }
+
+      if (placements.length !== concrete.length) continue;
+
+      const startLine = placements[0].start;
+      const endLine = placements[placements.length - 1].end;
+      const replacement: string[] = [];
+      let matched = 0;
+      let weighted = 0;
+      const normalizations = new Set<string>();
+
+      placements.forEach((p, k) => {
+        if (k > 0) {
+          // Keep the elided file content in place
+          replacement.push(...fileLines.slice(placements[k - 1].end, p.start));
+        }
+        replacement.push(...this.reindentLines(concrete[k], p.anchorBlock, this.detectIndent(fileLines[p.anchorFile]), style));
+        matched += p.matched;
+        weighted += p.confidence * concrete[k].length;
+        p.normalizations?.forEach(name => normalizations.add(name));
+      });
+
+      const confidence = weighted / totalLines;
+      if (confidence < (options.minConfidence ?? 0.5)) continue;
+
+      matches.push({
+        startLine,
+        endLine,
+        baseIndent: this.detectIndent(fileLines[startLine] ?? ''),
+        confidence,
+        similarity: confidence,
+        contextBefore: fileLines.slice(Math.max(0, startLine - contextLines), startLine),
+        contextAfter: fileLines.slice(endLine, Math.min(fileLines.length, endLine + contextLines)),
+        contextMatchLength: matched,
+        replacement,
+        normalizations: normalizations.size > 0 ? [...normalizations] : undefined
+      });
+    }
+
+    const unique = matches.filter((match, index, self) =>
+      index === self.findIndex((m) => m.startLine === match.startLine && m.endLine === match.endLine)
+    );
+    return unique.sort((a, b) => b.confidence - a.confidence || b.contextMatchLength - a.contextMatchLength);
+  }
+
+  /**
+   * Candidate file ranges for one concrete segment of an elided block, at or
+   * after `from`. Long segments use window matching; short ones are anchored
+   * on whichever of their first/last lines match (the rest is new code).
+   */
+  private static placeSegment(
+    fileLines: string[],
+    segment: string[],
+    from: number,
+    options: PatchOptions,
+    role: 'first' | 'middle' | 'last'
+  ): SegmentPlacement[] {
+    const fuzzy = options.fuzzyMatch ?? true;
+
+    if (segment.length >= 3) {
+      const windows = this.findWindowMatches(fileLines.slice(from), segment, { ...options, minConfidence: 0 })
+        .map((m): SegmentPlacement => {
+          const start = from + m.startLine;
+          const end = from + m.endLine;
+          const prefixAnchored = this.linesMatch(segment[0], fileLines[start], fuzzy, options);
+          return {
+            start,
+            end,
+            confidence: m.confidence,
+            matched: m.contextMatchLength,
+            anchorBlock: prefixAnchored ? 0 : segment.length - 1,
+            anchorFile: prefixAnchored ? start : end - 1,
+            normalizations: m.normalizations
+          };
+        });
+      return [...windows, ...this.bracketPlacements(fileLines, segment, from, options)];
+    }
+
+    const placements: SegmentPlacement[] = [];
+    for (let i = from; i < fileLines.length; i++) {
+      const prefix = this.findCommonPrefix(segment, fileLines, i, fuzzy, options);
+      if (prefix === segment.length || (prefix > 0 && role !== 'last')) {
+        placements.push({
+          start: i,
+          end: i + prefix,
+          confidence: prefix / segment.length,
+          matched: prefix,
+          anchorBlock: 0,
+          anchorFile: i,
+          normalizations: this.normalizationsUsed(segment.slice(0, prefix).map((line, j) => [line, fileLines[i + j]]), fuzzy, options)
+        });
+        continue;
+      }
+      if (role !== 'first') {
+        const suffix = this.findCommonSuffix(segment, fileLines, i, fuzzy, options);
+        if (suffix > 0 && i - suffix + 1 >= from) {
+          placements.push({
+            start: i - suffix + 1,
+            end: i + 1,
+            confidence: suffix / segment.length,
+            matched: suffix,
+            anchorBlock: segment.length - 1,
+            anchorFile: i,
+            normalizations: this.normalizationsUsed(segment.slice(-suffix).map((line, j) => [line, fileLines[i - suffix + 1 + j]]), fuzzy, options)
+          });
+        }
+      }
+    }
+    return placements;
+  }
+
+  /**
+   * Ranges that start at a match of the segment's first line and end at the
+   * nearest match of its last line, however many lines between them differ
+   */
+  private static bracketPlacements(
+    fileLines: string[],
+    segment: string[],
+    from: number,
+    options: PatchOptions
+  ): SegmentPlacement[] {
+    const fuzzy = options.fuzzyMatch ?? true;
+    const last = segment.length - 1;
+    const placements: SegmentPlacement[] = [];
+
+    for (let i = from; i < fileLines.length; i++) {
+      if (!this.linesMatch(segment[0], fileLines[i], fuzzy, options)) continue;
+      let j = i + 1;
+      while (j < fileLines.length && !this.linesMatch(segment[last], fileLines[j], fuzzy, options)) j++;
+      if (j === fileLines.length) break;
+
+      const span = j - i + 1;
+      const prefix = Math.min(this.findCommonPrefix(segment, fileLines, i, fuzzy, options), span);
+      const suffix = Math.min(this.findCommonSuffix(segment, fileLines, j, fuzzy, options), span - prefix, segment.length - prefix);
+      const pairs: Array<[string, string]> = [
+        ...segment.slice(0, prefix).map((line, k): [string, string] => [line, fileLines[i + k]]),
+        ...segment.slice(segment.length - suffix).map((line, k): [string, string] => [line, fileLines[j - suffix + 1 + k]])
+      ];
+      placements.push({
+        start: i,
+        end: j + 1,
+        confidence: (prefix + suffix) / segment.length,
+        matched: prefix + suffix,
+        anchorBlock: 0,
+        anchorFile: i,
+        normalizations: this.normalizationsUsed(pairs, fuzzy, options)
+      });
+    }
+    return placements;
+  }
+
+  /**
+   * Apply replacement at a specific match location. The file keeps its line
+   * endings, byte order mark and final newline (see LineEndings).
    */
   static applyReplacement(
     fileContent: string,
     match: Match,
-    codeBlock: string
+    codeBlock: string,
+    options: PatchOptions = {}
   ): string {
-    const normalizedFile = this.normalizeLineEndings(fileContent);
-    const normalizedBlock = this.normalizeLineEndings(codeBlock.trim());
-
-    const fileLines = normalizedFile.split('\n');
+    const file = LineEndings.split(fileContent);
+    const normalizedBlock = this.normalizeLineEndings(this.trimBlankLines(codeBlock));
     const blockLines = normalizedBlock.split('\n');
 
     // Re-indent the code block to match the original location
-    const indentedBlock = blockLines.map((line) => {
-      if (line.trim() === '') {
-        return line;
-      }
-      return match.baseIndent + line.trim();
-    });
+    const indentedBlock = match.replacement ??
+      this.reindentLines(blockLines, 0, match.baseIndent, options.indentStyle ?? this.detectIndentStyle(file.lines));
 
     // Replace the matched section
-    fileLines.splice(
-      match.startLine,
-      match.endLine - match.startLine,
-      ...indentedBlock
-    );
+    const { eol } = LineEndings.detect(fileContent);
+    return LineEndings.join(LineEndings.splice(file, eol, match.startLine, match.endLine - match.startLine, indentedBlock));
+  }
+
+  /**
+   * Apply several matches in one file. Overlapping matches are dropped (the
+   * earlier one in the list wins); the rest are spliced in bottom-up so the
+   * line numbers of the ones above stay valid.
+   */
+  static applyReplacements(
+    fileContent: string,
+    matches: Match[],
+    codeBlock: string,
+    options: PatchOptions = {}
+  ): string {
+    // Detect the style once, before the replacements change the file
+    const indentStyle = options.indentStyle ?? this.detectIndentStyle(this.fileLines(fileContent));
+    return this.nonOverlapping(matches)
+      .sort((a, b) => b.startLine - a.startLine)
+      .reduce((text, match) => this.applyReplacement(text, match, codeBlock, { ...options, indentStyle }), fileContent);
+  }
+
+  /**
+   * The matches that do not overlap one earlier in the list. With matches
+   * sorted best first, every location keeps its best match.
+   */
+  static nonOverlapping(matches: Match[]): Match[] {
+    const kept: Match[] = [];
+    for (const match of matches) {
+      if (!kept.some(k => match.startLine < k.endLine && k.startLine < match.endLine)) {
+        kept.push(match);
+      }
+    }
+    return kept;
+  }
 
-    return fileLines.join('\n');
+  /**
+   * Would applying a match leave the file as it is? True when the region
+   * already reads exactly as the patched code (e.g. the block was pasted twice).
+   */
+  static isApplied(fileContent: string, match: Match, codeBlock: string, options: PatchOptions = {}): boolean {
+    const patched = this.applyReplacement(fileContent, match, codeBlock, options);
+    return this.normalizeLineEndings(patched) === this.normalizeLineEndings(fileContent);
+  }
+
+  /**
+   * Hash of the lines a match covers, to notice when they change before applying
+   */
+  static fingerprint(fileContent: string, match: Match): string {
+    const lines = this.fileLines(fileContent).slice(match.startLine, match.endLine);
+    return createHash('sha1').update(lines.join('\n')).digest('hex');
+  }
+
+  /**
+   * Find a previously found match again in the file as it is now.
+   * The original location is kept while its lines are unchanged; otherwise the
+   * block is matched again, preferring regions with the same fingerprint and
+   * then the one closest to the old line. Undefined when nothing matches anymore.
+   */
+  static relocateMatch(
+    fileContent: string,
+    codeBlock: string,
+    original: Match,
+    fingerprint: string,
+    options?: PatchOptions
+  ): MatchRelocation | undefined {
+    if (this.fingerprint(fileContent, original) === fingerprint) {
+      return { match: original, moved: false, changed: false };
+    }
+
+    const matches = this.patch(fileContent, codeBlock, options).matches;
+    const unchanged = matches.filter(m => this.fingerprint(fileContent, m) === fingerprint);
+    const pool = unchanged.length > 0 ? unchanged : matches;
+
+    let best: Match | undefined;
+    for (const m of pool) {
+      if (!best || Math.abs(m.startLine - original.startLine) < Math.abs(best.startLine - original.startLine)) {
+        best = m;
+      }
+    }
+    if (!best) return undefined;
+
+    return { match: best, moved: best.startLine !== original.startLine, changed: unchanged.length === 0 };
   }
 
   /**
@@ -297,7 +981,18 @@ export class CodePatcher {
       };
     }
 
-    const matches = this.findMatches(fileContent, trimmedBlock, options);
+    const format = this.detectFormat(trimmedBlock);
+    if (format === 'unified-diff') {
+      return this.patchDiff(fileContent, trimmedBlock, options);
+    }
+    if (format === 'search-replace') {
+      return this.patchSearchReplace(fileContent, trimmedBlock, options);
+    }
+
+    // Keep the first line's indentation: it is part of the block's nesting
+    const block = this.trimBlankLines(codeBlock);
+    const matches = this.findMatches(fileContent, block, options)
+      .map(match => this.isApplied(fileContent, match, block, options) ? { ...match, applied: true } : match);
 
     if (matches.length === 0) {
       const normalizedBlock = this.normalizeLineEndings(trimmedBlock);
@@ -314,10 +1009,490 @@ export class CodePatcher {
 
     return {
       success: true,
-      matches
+      matches,
+      format: 'context',
+      status: matches[0].applied ? 'applied' : 'pending'
+    };
+  }
+
+  /**
+   * Work out which input format a block is written in
+   */
+  static detectFormat(codeBlock: string): PatchFormat {
+    if (SearchReplace.isSearchReplace(codeBlock)) {
+      return 'search-replace';
+    }
+    return UnifiedDiff.isUnifiedDiff(codeBlock) ? 'unified-diff' : 'context';
+  }
+
+  /**
+   * Contents for a new file made from a block: the new side of a diff, the
+   * REPLACE half of a SEARCH/REPLACE block, otherwise the block itself
+   */
+  static newFileContent(codeBlock: string): string {
+    const normalized = this.normalizeLineEndings(codeBlock);
+    let lines: string[];
+
+    switch (this.detectFormat(normalized)) {
+      case 'unified-diff':
+        lines = UnifiedDiff.parse(normalized).flatMap(file => file.hunks.flatMap(hunk => UnifiedDiff.newSide(hunk)));
+        break;
+      case 'search-replace':
+        lines = SearchReplace.parse(normalized).flatMap(block => block.replace);
+        break;
+      default:
+        lines = this.trimBlankLines(normalized).split('\n');
+    }
+
+    return lines.join('\n').replace(/\n*$/, '\n');
+  }
+
+  /**
+   * Apply a SEARCH/REPLACE block: the SEARCH half is matched line by line and
+   * the REPLACE half is spliced in its place.
+   */
+  static patchSearchReplace(
+    fileContent: string,
+    blockText: string,
+    options: PatchOptions = {}
+  ): PatchResult {
+    const pairs = SearchReplace.parse(blockText);
+
+    if (pairs.length === 0) {
+      return { success: false, matches: [], format: 'search-replace', error: 'Malformed SEARCH/REPLACE block' };
+    }
+    if (pairs.length > 1) {
+      return {
+        success: false,
+        matches: [],
+        format: 'search-replace',
+        error: `Found ${pairs.length} SEARCH/REPLACE pairs; apply them from the clipboard so each pair is matched separately`
+      };
+    }
+
+    const pair = pairs[0];
+    if (pair.search.every(l => l.trim() === '')) {
+      return { success: false, matches: [], format: 'search-replace', error: 'SEARCH section is empty' };
+    }
+
+    const matches = this.findSearchMatches(fileContent, pair, options);
+
+    // Once applied, the SEARCH half is gone (or sits inside the REPLACE half, for additions)
+    const present = this.findAppliedReplacement(fileContent, pair, matches[0], options);
+    if (present) {
+      const others = matches.filter(m => m.endLine <= present.startLine || present.endLine <= m.startLine);
+      return { success: true, matches: [present, ...others], format: 'search-replace', status: 'applied' };
+    }
+
+    if (matches.length === 0) {
+      const search = pair.search.filter(l => l.trim());
+      return {
+        success: false,
+        matches: [],
+        format: 'search-replace',
+        error: 'SEARCH section not found in file.',
+        debug: `Searched for ${pair.search.length} lines. First: "${search[0].trim().substring(0, 40)}", Last: "${search[search.length - 1].trim().substring(0, 40)}"`
+      };
+    }
+
+    return { success: true, matches, format: 'search-replace', status: 'pending' };
+  }
+
+  /**
+   * Where the REPLACE half already sits in the file, line for line (only
+   * indentation may differ). With a SEARCH match it must enclose that match;
+   * without one it must be the only occurrence and contain a line the SEARCH
+   * half lacks, so a common line like "}" is not taken for the patch.
+   * The match replaces the region with itself.
+   */
+  private static findAppliedReplacement(
+    fileContent: string,
+    pair: SearchReplaceBlock,
+    best: Match | undefined,
+    options: PatchOptions
+  ): Match | undefined {
+    const replace = this.trimBlankEdges(pair.replace);
+    if (replace.length === 0) return undefined;
+
+    const strict = { ...options, fuzzyMatch: false, normalization: [], minConfidence: 1 };
+    const found = this.findSearchMatches(fileContent, { search: replace, replace }, strict);
+    const search = new Set(pair.search.map(line => line.trim()));
+    const present = best
+      ? found.find(m => m.startLine <= best.startLine && best.endLine <= m.endLine)
+      : found.length === 1 && replace.some(line => line.trim() && !search.has(line.trim())) ? found[0] : undefined;
+    if (!present) return undefined;
+
+    const fileLines = this.fileLines(fileContent);
+    return { ...present, replacement: fileLines.slice(present.startLine, present.endLine), applied: true };
+  }
+
+  /**
+   * Find every location of the SEARCH half. The first and last lines must
+   * match; confidence is the share of SEARCH lines that match in between.
+   */
+  static findSearchMatches(
+    fileContent: string,
+    pair: SearchReplaceBlock,
+    options: PatchOptions = {}
+  ): Match[] {
+    const fuzzy = options.fuzzyMatch ?? true;
+    const minConfidence = options.minConfidence ?? 0.5;
+    const contextLines = options.contextLines ?? 2;
+
+    const fileLines = this.fileLines(fileContent);
+    const search = this.trimBlankEdges(pair.search);
+    const style = options.indentStyle ?? this.detectIndentStyle(fileLines);
+    const matches: Match[] = [];
+
+    for (let start = 0; start + search.length <= fileLines.length; start++) {
+      const prefix = this.findCommonPrefix(search, fileLines, start, fuzzy, options);
+      if (prefix === 0) continue;
+
+      const end = start + search.length;
+      let matched = prefix;
+      if (prefix < search.length) {
+        if (this.findCommonSuffix(search, fileLines, end - 1, fuzzy, options) === 0) continue;
+        for (let i = prefix; i < search.length; i++) {
+          if (this.linesMatch(search[i], fileLines[start + i], fuzzy, options)) matched++;
+        }
+      }
+
+      const confidence = matched / search.length;
+      if (confidence < minConfidence) continue;
+
+      matches.push({
+        startLine: start,
+        endLine: end,
+        baseIndent: this.detectIndent(fileLines[start]),
+        confidence,
+        similarity: confidence,
+        contextBefore: fileLines.slice(Math.max(0, start - contextLines), start),
+        contextAfter: fileLines.slice(end, Math.min(fileLines.length, end + contextLines)),
+        contextMatchLength: matched,
+        replacement: this.searchReplacement(pair.replace, search[0], fileLines[start], style),
+        normalizations: this.normalizationsUsed(search.map((line, i) => [line, fileLines[start + i]]), fuzzy, options)
+      });
+    }
+
+    return matches.sort((a, b) => b.confidence - a.confidence || a.startLine - b.startLine);
+  }
+
+  /**
+   * Re-indent the REPLACE half so it sits where the SEARCH half was found.
+   * Both halves share one indentation frame, so the REPLACE lines keep their
+   * offset from the first SEARCH line.
+   */
+  static searchReplacement(replace: string[], searchFirst: string, fileFirst: string, style: IndentStyle): string[] {
+    const lines = this.trimBlankEdges(replace);
+    if (lines.length === 0) {
+      return [];
+    }
+
+    // Measure both halves together so they share the same minimum indent
+    const combined = [searchFirst, ...lines];
+    return this.reindentLines(combined, 0, this.detectIndent(fileFirst), style).slice(1);
+  }
+
+  private static trimBlankEdges(lines: string[]): string[] {
+    let start = 0;
+    let end = lines.length;
+    while (start < end && lines[start].trim() === '') start++;
+    while (end > start && lines[end - 1].trim() === '') end--;
+    return lines.slice(start, end);
+  }
+
+  /**
+   * Apply a unified diff hunk by hunk. Hunks are placed at their header line
+   * numbers when possible, then by searching nearby, then with fuzzy matching.
+   * The successful hunks are folded into a single Match whose replacement
+   * covers everything from the first to the last placed hunk.
+   */
+  static patchDiff(
+    fileContent: string,
+    diffText: string,
+    options: PatchOptions = {}
+  ): PatchResult {
+    const files = UnifiedDiff.parse(diffText);
+
+    if (files.length === 0) {
+      return { success: false, matches: [], format: 'unified-diff', error: 'No hunks found in diff' };
+    }
+    if (files.length > 1) {
+      return {
+        success: false,
+        matches: [],
+        format: 'unified-diff',
+        error: `Diff touches ${files.length} files; apply it from the clipboard so each file is patched separately`
+      };
+    }
+
+    return this.applyFileDiff(fileContent, files[0], options);
+  }
+
+  /**
+   * Place every hunk of a single-file diff and report per-hunk results
+   */
+  static applyFileDiff(
+    fileContent: string,
+    fileDiff: FileDiff,
+    options: PatchOptions = {}
+  ): PatchResult {
+    const fuzzy = options.fuzzyMatch ?? true;
+    const contextLines = options.contextLines ?? 2;
+    const fileLines = this.fileLines(fileContent);
+
+    const hunks: HunkResult[] = [];
+    const placed: Array<{ start: number; end: number; lines: string[]; contextMatched: number }> = [];
+    const normalizations = new Set<string>();
+    let searchFrom = 0;
+    let delta = 0; // Line shift caused by the hunks applied so far
+
+    fileDiff.hunks.forEach((hunk, index) => {
+      const oldLines = UnifiedDiff.oldSide(hunk);
+      const expected = hunk.oldStart !== undefined
+        ? Math.max(searchFrom, Math.max(0, hunk.oldStart - 1) + delta)
+        : searchFrom;
+
+      const location = this.locateHunk(fileLines, hunk, oldLines, expected, searchFrom, fuzzy, options);
+      const contextMatched = hunk.lines.filter(l => l[0] === ' ').length;
+
+      const present = this.locateAppliedHunk(fileLines, hunk, oldLines, location, expected, searchFrom);
+      if (present) {
+        // Already there: the region stays as it is
+        placed.push({ start: present.start, end: present.end, lines: fileLines.slice(present.start, present.end), contextMatched });
+        hunks.push({
+          index,
+          header: hunk.header,
+          success: true,
+          startLine: present.start,
+          endLine: present.end,
+          offset: present.start - expected,
+          method: 'exact',
+          confidence: 1,
+          applied: true
+        });
+        searchFrom = present.end;
+        if (hunk.oldStart !== undefined) {
+          delta = present.start - (hunk.oldStart - 1);
+        }
+        return;
+      }
+
+      if (!location) {
+        hunks.push({ index, header: hunk.header, success: false, error: 'Could not find the lines this hunk changes' });
+        return;
+      }
+
+      const replacement = this.hunkReplacement(hunk, fileLines, location);
+
+      placed.push({ start: location.start, end: location.end, lines: replacement, contextMatched });
+      location.normalizations?.forEach(name => normalizations.add(name));
+      hunks.push({
+        index,
+        header: hunk.header,
+        success: true,
+        startLine: location.start,
+        endLine: location.end,
+        offset: location.start - expected,
+        method: location.method,
+        confidence: location.confidence
+      });
+
+      searchFrom = location.end;
+      if (hunk.oldStart !== undefined) {
+        delta = location.start - (hunk.oldStart - 1) + (replacement.length - (location.end - location.start));
+      }
+    });
+
+    const applied = hunks.filter(h => h.success);
+    const failed = hunks.length - applied.length;
+    const present = applied.filter(h => h.applied).length;
+
+    if (placed.length === 0) {
+      return {
+        success: false,
+        matches: [],
+        format: 'unified-diff',
+        hunks,
+        error: `None of the ${hunks.length} hunk${hunks.length === 1 ? '' : 's'} could be placed`,
+        debug: `Target: ${UnifiedDiff.targetPath(fileDiff) ?? 'unknown'}`
+      };
+    }
+
+    // Stitch placed hunks together with the untouched file lines between them
+    const startLine = placed[0].start;
+    const endLine = placed[placed.length - 1].end;
+    const replacement: string[] = [];
+    let cursor = startLine;
+    for (const p of placed) {
+      replacement.push(...fileLines.slice(cursor, p.start), ...p.lines);
+      cursor = p.end;
+    }
+
+    const confidence = applied.reduce((sum, h) => sum + (h.confidence ?? 0), 0) / hunks.length;
+
+    const match: Match = {
+      startLine,
+      endLine,
+      baseIndent: fileLines[startLine] ? this.detectIndent(fileLines[startLine]) : '',
+      confidence,
+      similarity: confidence,
+      contextBefore: fileLines.slice(Math.max(0, startLine - contextLines), startLine),
+      contextAfter: fileLines.slice(endLine, Math.min(fileLines.length, endLine + contextLines)),
+      contextMatchLength: placed.reduce((sum, p) => sum + p.contextMatched, 0),
+      replacement,
+      normalizations: normalizations.size > 0 ? [...normalizations] : undefined,
+      applied: present === applied.length || undefined
+    };
+
+    return {
+      success: true,
+      matches: [match],
+      format: 'unified-diff',
+      hunks,
+      status: present === 0 ? 'pending' : present === applied.length ? 'applied' : 'partial',
+      error: failed > 0 ? `${failed} of ${hunks.length} hunks could not be placed` : undefined
     };
   }
 
+  /**
+   * Find where a hunk's old side sits in the file, at or after `searchFrom`
+   */
+  private static locateHunk(
+    fileLines: string[],
+    hunk: DiffHunk,
+    oldLines: string[],
+    expected: number,
+    searchFrom: number,
+    fuzzy: boolean,
+    options: PatchOptions
+  ): { start: number; end: number; method: HunkResult['method']; confidence: number; normalizations?: string[] } | null {
+    // Pure insertion: nothing to anchor on but the line number
+    if (oldLines.length === 0) {
+      const at = Math.min(expected, fileLines.length);
+      return { start: at, end: at, method: 'exact', confidence: hunk.oldStart !== undefined ? 1 : 0.5 };
+    }
+
+    const nearest = (compare: (a: string, b: string) => boolean) =>
+      this.nearestFit(fileLines, oldLines, expected, searchFrom, compare);
+
+    if (oldLines.every((line, i) => line === fileLines[expected + i])) {
+      return { start: expected, end: expected + oldLines.length, method: 'exact', confidence: 1 };
+    }
+
+    const used = (start: number, fuzzyLines: boolean) =>
+      this.normalizationsUsed(oldLines.map((line, i) => [line, fileLines[start + i]]), fuzzyLines, options);
+
+    let start = nearest((a, b) => this.linesMatch(a, b, false, options));
+    if (start >= 0) {
+      return { start, end: start + oldLines.length, method: 'offset', confidence: 1, normalizations: used(start, false) };
+    }
+
+    if (fuzzy) {
+      start = nearest((a, b) => this.linesMatch(a, b, true, options));
+      if (start >= 0) {
+        return { start, end: start + oldLines.length, method: 'fuzzy', confidence: 0.9, normalizations: used(start, true) };
+      }
+    }
+
+    // Last resort: context-window matching on the old side
+    if (oldLines.length >= 3) {
+      const region = fileLines.slice(searchFrom).join('\n');
+      const [best] = this.findMatches(region, oldLines.join('\n'), options);
+      if (best) {
+        return {
+          start: searchFrom + best.startLine,
+          end: searchFrom + best.endLine,
+          method: 'context',
+          confidence: best.confidence,
+          normalizations: best.normalizations
+        };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Where a hunk's new side already sits, when the hunk looks applied: the new
+   * side is found line for line near the expected position, and the old side
+   * is either not found as such or lies inside it (an addition next to lines
+   * the hunk keeps).
+   */
+  private static locateAppliedHunk(
+    fileLines: string[],
+    hunk: DiffHunk,
+    oldLines: string[],
+    location: { start: number; end: number; method: HunkResult['method'] } | null,
+    expected: number,
+    searchFrom: number
+  ): { start: number; end: number } | undefined {
+    const newLines = UnifiedDiff.newSide(hunk);
+    if (newLines.length === 0 || (newLines.length === oldLines.length && newLines.every((line, i) => line === oldLines[i]))) {
+      return undefined;
+    }
+
+    const start = this.nearestFit(fileLines, newLines, expected, searchFrom, (a, b) => a.trim() === b.trim());
+    if (start < 0) return undefined;
+
+    const end = start + newLines.length;
+    const oldFound = location && (location.method === 'exact' || location.method === 'offset');
+    if (oldFound && !(start <= location.start && location.end <= end)) return undefined;
+    return { start, end };
+  }
+
+  /**
+   * Start of the position nearest to `expected` (searching outwards, not
+   * above `searchFrom`) where `lines` fit the file line for line, or -1
+   */
+  private static nearestFit(
+    fileLines: string[],
+    lines: string[],
+    expected: number,
+    searchFrom: number,
+    compare: (a: string, b: string) => boolean
+  ): number {
+    const fitsAt = (start: number) =>
+      start + lines.length <= fileLines.length &&
+      lines.every((line, i) => compare(line, fileLines[start + i]));
+
+    const limit = Math.max(expected - searchFrom, fileLines.length - expected);
+    for (let d = 0; d <= limit; d++) {
+      if (expected + d < fileLines.length && fitsAt(expected + d)) return expected + d;
+      if (d > 0 && expected - d >= searchFrom && fitsAt(expected - d)) return expected - d;
+    }
+    return -1;
+  }
+
+  /**
+   * New lines for a located hunk. When the old side lines up one-to-one with
+   * the file, context lines keep the file's own text rather than the diff's.
+   */
+  private static hunkReplacement(
+    hunk: DiffHunk,
+    fileLines: string[],
+    location: { start: number; end: number }
+  ): string[] {
+    const oldCount = hunk.lines.filter(l => l[0] !== '+').length;
+    if (location.end - location.start !== oldCount) {
+      return UnifiedDiff.newSide(hunk);
+    }
+
+    const result: string[] = [];
+    let fileIndex = location.start;
+    for (const line of hunk.lines) {
+      if (line[0] === '+') {
+        result.push(line.slice(1));
+      } else {
+        if (line[0] === ' ') {
+          result.push(fileLines[fileIndex]);
+        }
+        fileIndex++;
+      }
+    }
+    return result;
+  }
+
   /**
    * Apply code block to file content using a specific match
    */
@@ -337,7 +1512,7 @@ export class CodePatcher {
       return null;
     }
 
-    return this.applyReplacement(fileContent, result.matches[matchIndex], codeBlock);
+    return this.applyReplacement(fileContent, result.matches[matchIndex], codeBlock, options);
   }
 
   /**
@@ -356,13 +1531,23 @@ export class CodePatcher {
     }
 
     const match = result.matches[matchIndex];
-    const normalizedFile = this.normalizeLineEndings(fileContent);
-    const normalizedBlock = this.normalizeLineEndings(codeBlock.trim());
+    const normalizedBlock = this.normalizeLineEndings(this.trimBlankLines(codeBlock));
 
-    const fileLines = normalizedFile.split('\n');
+    const fileLines = this.fileLines(fileContent);
     const blockLines = normalizedBlock.split('\n');
 
-    let preview = `Match at lines ${match.startLine + 1}-${match.endLine} (confidence: ${(match.confidence * 100).toFixed(1)}%, ${match.contextMatchLength} context lines matched)\n\n`;
+    let preview = `Match at lines ${match.startLine + 1}-${match.endLine} (confidence: ${(match.confidence * 100).toFixed(1)}%, ${match.contextMatchLength} context lines matched)\n`;
+    if (match.normalizations) {
+      preview += `Lines matched after normalising: ${match.normalizations.join(', ')}\n`;
+    }
+
+    // Per-hunk placement for diff input
+    for (const hunk of result.hunks ?? []) {
+      preview += hunk.success
+        ? `Hunk ${hunk.index + 1}: ${hunk.method} at line ${hunk.startLine! + 1}${hunk.offset ? ` (offset ${hunk.offset})` : ''}\n`
+        : `Hunk ${hunk.index + 1}: FAILED — ${hunk.error}\n`;
+    }
+    preview += '\n';
 
     // Show context before
     if (match.contextBefore.length > 0) {
@@ -374,9 +1559,8 @@ export class CodePatcher {
     preview += removedLines.map(line => `- ${line}`).join('\n') + '\n';
 
     // Show what will be added
-    const indentedBlock = blockLines.map(line =>
-      line.trim() === '' ? line : match.baseIndent + line.trim()
-    );
+    const indentedBlock = match.replacement ??
+      this.reindentLines(blockLines, 0, match.baseIndent, options?.indentStyle ?? this.detectIndentStyle(fileLines));
     preview += indentedBlock.map(line => `+ ${line}`).join('\n') + '\n';
 
     // Show context after
@@ -0,0 +1,79 @@
+// contextRanking.ts - Rank workspace candidates by what the user is working on (no vscode dependency)
+
+/**
+ * Snapshot of the editor state the ranking looks at. Paths are absolute.
+ */
+export interface EditorContext {
+  activeFile?: string;
+  cursorLine?: number;        // 0-based, in the active file
+  visibleFiles: string[];     // Shown in an editor group
+  openFiles: string[];        // Open as a tab
+  changedFiles: string[];     // Modified in the git working tree or index
+  recentlyPatched: string[];  // Patched by the extension lately
+}
+
+export type ContextSignalName = 'active file' | 'near cursor' | 'visible' | 'open tab' | 'git changed' | 'recently patched';
+
+export interface ContextSignal {
+  name: ContextSignalName;
+  boost: number; // Added to the rank score
+}
+
+/**
+ * Boosts for candidates in files the user is looking at or working on. They
+ * only reorder candidates: whether a block is ambiguous is still decided by
+ * match quality and path hints alone (see WorkspaceSearch.hasCloseTie).
+ * All boosts together add at most 0.17, so a match that much more confident
+ * elsewhere still ranks above one in the active file.
+ */
+export class ContextRanking {
+  static readonly ACTIVE_FILE = 0.08;
+  static readonly NEAR_CURSOR = 0.04;    // At the cursor, fading out over CURSOR_RANGE lines
+  static readonly CURSOR_RANGE = 200;
+  static readonly VISIBLE = 0.05;        // Only for files that are not the active one
+  static readonly OPEN_TAB = 0.03;       // Only for files that are not visible
+  static readonly GIT_CHANGED = 0.03;
+  static readonly RECENTLY_PATCHED = 0.02;
+  static readonly RECENT_PATCH_WINDOW = 30 * 60 * 1000; // Milliseconds a patched file counts as recent
+
+  /**
+   * The signals that apply to a match in a file, strongest first
+   */
+  static signals(file: string, match: { startLine: number; endLine: number }, context: EditorContext): ContextSignal[] {
+    const signals: ContextSignal[] = [];
+
+    if (file === context.activeFile) {
+      signals.push({ name: 'active file', boost: this.ACTIVE_FILE });
+      if (context.cursorLine !== undefined) {
+        const distance = context.cursorLine < match.startLine
+          ? match.startLine - context.cursorLine
+          : Math.max(0, context.cursorLine - (match.endLine - 1));
+        const boost = this.NEAR_CURSOR * Math.max(0, 1 - distance / this.CURSOR_RANGE);
+        if (boost > 0) signals.push({ name: 'near cursor', boost });
+      }
+    } else if (context.visibleFiles.includes(file)) {
+      signals.push({ name: 'visible', boost: this.VISIBLE });
+    } else if (context.openFiles.includes(file)) {
+      signals.push({ name: 'open tab', boost: this.OPEN_TAB });
+    }
+
+    if (context.changedFiles.includes(file)) {
+      signals.push({ name: 'git changed', boost: this.GIT_CHANGED });
+    }
+    if (context.recentlyPatched.includes(file)) {
+      signals.push({ name: 'recently patched', boost: this.RECENTLY_PATCHED });
+    }
+    return signals.sort((a, b) => b.boost - a.boost);
+  }
+
+  static total(signals: ContextSignal[]): number {
+    return signals.reduce((sum, s) => sum + s.boost, 0);
+  }
+
+  /**
+   * "active file +8, near cursor +3" (boosts in percentage points, like confidence)
+   */
+  static describe(signals: ContextSignal[]): string {
+    return signals.map(s => `${s.name} +${Math.round(s.boost * 100)}`).join(', ');
+  }
+}
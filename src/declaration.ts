@@ -0,0 +1,172 @@
+// declaration.ts - Recognise blocks that are one complete declaration (no vscode dependency)
+
+import { CodePatcher, PatchOptions } from './codePatcher';
+
+export type DeclarationKind = 'function' | 'method' | 'class' | 'interface' | 'enum' | 'struct' | 'type' | 'namespace';
+
+export interface DeclarationInfo {
+  name: string;
+  kind: DeclarationKind;
+  container?: string;  // Owner named in the declaration itself (Foo::bar, Foo.bar, Go receivers)
+  header: string;      // The declaration line, trimmed
+  headerIndex: number; // Line of the header within the block (after decorators/comments)
+}
+
+interface DeclarationPattern {
+  regex: RegExp;
+  kind: DeclarationKind;
+  name: number;       // Capture group of the name
+  container?: number; // Capture group of the owner, if the syntax has one
+}
+
+export class Declaration {
+  private static readonly MODIFIERS = '(?:(?:export|default|declare|public|private|protected|internal|static|final|abstract|override|virtual|async|readonly|sealed|synchronized|unsafe|extern|inline|partial|pub(?:\\([\\w:]+\\))?)\\s+)*';
+
+  /**
+   * Declaration headers, most specific first
+   */
+  static readonly PATTERNS: DeclarationPattern[] = [
+    { regex: new RegExp(`^${Declaration.MODIFIERS}function\\*?\\s+([\\w$]+)`), kind: 'function', name: 1 },
+    { regex: new RegExp(`^${Declaration.MODIFIERS}(?:class|record)\\s+([\\w$]+)`), kind: 'class', name: 1 },
+    { regex: new RegExp(`^${Declaration.MODIFIERS}(?:interface|trait|protocol)\\s+([\\w$]+)`), kind: 'interface', name: 1 },
+    { regex: new RegExp(`^${Declaration.MODIFIERS}(?:const\\s+)?enum\\s+(?:class\\s+)?([\\w$]+)`), kind: 'enum', name: 1 },
+    { regex: new RegExp(`^${Declaration.MODIFIERS}struct\\s+([\\w$]+)`), kind: 'struct', name: 1 },
+    { regex: new RegExp(`^${Declaration.MODIFIERS}(?:namespace|module)\\s+([\\w$.]+)`), kind: 'namespace', name: 1 },
+    { regex: new RegExp(`^${Declaration.MODIFIERS}type\\s+([\\w$]+)\\s*(?:<[^=]*>)?\\s*=`), kind: 'type', name: 1 },
+    // const foo = (…) => / const foo = function / const foo = async x =>
+    { regex: new RegExp(`^${Declaration.MODIFIERS}(?:const|let|var)\\s+([\\w$]+)\\s*(?::[^=]+)?=\\s*(?:async\\s*)?(?:function\\b|\\([^)]*\\)\\s*(?::[^=]+)?=>|[\\w$]+\\s*=>)`), kind: 'function', name: 1 },
+    // Python / Ruby
+    { regex: /^(?:async\s+)?def\s+(?:self\.)?([\w]+[?!=]?)\s*[(:]?/, kind: 'function', name: 1 },
+    // Go: func (r *Recv) Name( / func Name(
+    { regex: /^func\s+\(\s*(?:\w+\s+)?\*?(\w+)(?:\[[^\]]*\])?\s*\)\s*(\w+)\s*[([]/, kind: 'method', name: 2, container: 1 },
+    { regex: /^func\s+(\w+)\s*[([]/, kind: 'function', name: 1 },
+    // Rust / Swift / Kotlin
+    { regex: new RegExp(`^${Declaration.MODIFIERS}(?:fn|func|fun)\\s+([\\w$]+)`), kind: 'function', name: 1 },
+    // C++ out-of-class definitions: Type Owner::name(
+    { regex: /^(?:[\w:<>,*&\s]+\s+)?[*&]?(\w+)::(~?\w+)\s*\(/, kind: 'method', name: 2, container: 1 },
+    // JS: Owner.prototype.name = function / Owner.name = function
+    { regex: /^([\w$]+)(?:\.prototype)?\.([\w$]+)\s*=\s*(?:async\s*)?(?:function\b|\([^)]*\)\s*=>)/, kind: 'method', name: 2, container: 1 },
+    // Methods: [modifiers] [return type] name(…) — typed languages and class bodies
+    { regex: new RegExp(`^${Declaration.MODIFIERS}(?:get\\s+|set\\s+)?(?:[\\w$<>\\[\\],.?]+\\s+)?([\\w$]+)\\s*(?:<[^>]*>)?\\s*\\(`), kind: 'method', name: 1 }
+  ];
+
+  /**
+   * Words that look like a call or method header but are control flow
+   */
+  private static readonly NOT_NAMES = new Set([
+    'if', 'for', 'foreach', 'while', 'switch', 'catch', 'return', 'throw', 'new', 'typeof', 'await', 'yield',
+    'sizeof', 'with', 'using', 'lock', 'elif', 'else', 'do', 'try', 'super', 'this', 'print', 'require', 'import'
+  ]);
+
+  /**
+   * Detect a block that is exactly one complete declaration (decorators and
+   * leading comments allowed). Blocks with elision markers are left to the
+   * elision matcher.
+   */
+  static parse(codeBlock: string, options: PatchOptions = {}): DeclarationInfo | undefined {
+    const lines = CodePatcher.normalizeLineEndings(CodePatcher.trimBlankLines(codeBlock)).split('\n');
+    const markers = CodePatcher.compileElisionMarkers(options.elisionMarkers);
+    if (lines.length < 2 || lines.some(line => CodePatcher.isElisionLine(line, markers))) {
+      return undefined;
+    }
+
+    const headerIndex = lines.findIndex(line => !this.isPreamble(line));
+    if (headerIndex < 0) return undefined;
+    const header = lines[headerIndex].trim();
+
+    for (const pattern of this.PATTERNS) {
+      const m = header.match(pattern.regex);
+      if (!m || this.NOT_NAMES.has(m[pattern.name])) continue;
+      if (pattern === this.PATTERNS[this.PATTERNS.length - 1] && !this.looksLikeMethodHeader(lines, headerIndex)) {
+        return undefined;
+      }
+      if (!this.isComplete(lines, headerIndex)) {
+        return undefined;
+      }
+
+      return {
+        name: m[pattern.name],
+        kind: pattern.kind,
+        container: pattern.container ? m[pattern.container] : undefined,
+        header,
+        headerIndex
+      };
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Symbol names as reported by language servers, reduced to the bare name:
+   * "(*Foo).Bar" → "Bar", "bar(int, String)" → "bar", "List<T>" → "List"
+   */
+  static normalizeSymbolName(name: string): { name: string; container?: string } {
+    const receiver = name.match(/^\(\*?(\w+)\)\.(\w+)/);
+    if (receiver) {
+      return { name: receiver[2], container: receiver[1] };
+    }
+    return { name: name.replace(/\(.*$/, '').replace(/<.*$/, '').trim() };
+  }
+
+  /**
+   * Decorators, attributes and comments that may precede a declaration
+   */
+  static isPreamble(line: string): boolean {
+    const t = line.trim();
+    return !t || /^(@[\w.]+|#\[|\[[A-Z]\w*[\](]|\/\/|\/\*|\*|#(?!include)|--|"""|''')/.test(t);
+  }
+
+  /**
+   * A bare "name(…)" header only counts when a body follows on the same or next line
+   */
+  private static looksLikeMethodHeader(lines: string[], headerIndex: number): boolean {
+    const header = lines[headerIndex].trim();
+    const next = (lines[headerIndex + 1] ?? '').trim();
+    return /\)\s*(?::[^{;]+|->[^{;]+|throws [^{;]+)?\s*\{\s*$/.test(header) || (/\)\s*$/.test(header) && next === '{');
+  }
+
+  /**
+   * The declaration starts at the header and ends on the last line: an
+   * indented (Python) body, a Ruby-style "end", or balanced braces that only
+   * return to depth 0 at the end
+   */
+  private static isComplete(lines: string[], headerIndex: number): boolean {
+    const body = lines.slice(headerIndex);
+    const last = body[body.length - 1];
+    const headerIndent = CodePatcher.detectIndent(body[0]).length;
+    const deeper = (l: string) => !l.trim() || CodePatcher.detectIndent(l).length > headerIndent;
+
+    // Python: header ends with ":" and every other line is indented deeper
+    if (/:\s*(#.*)?$/.test(body[0]) && !body[0].includes('{')) {
+      return body.slice(1).every(deeper);
+    }
+
+    // Ruby: "def …" closed by an "end" at the header's indent
+    if (!/\{\s*$/.test(body[0]) && /^end\b/.test(last.trim()) && CodePatcher.detectIndent(last).length === headerIndent) {
+      return body.slice(1, -1).every(deeper);
+    }
+
+    let depth = 0;
+    let opened = false;
+    for (let i = 0; i < body.length; i++) {
+      const code = body[i]
+        .replace(/(["'`])(?:\\.|(?!\1).)*\1/g, '""') // String literals
+        .replace(/\/\/.*$/, '');                     // Line comments
+      for (const ch of code) {
+        if (ch === '{' || ch === '(' || ch === '[') {
+          depth++;
+          if (ch === '{') opened = true;
+        } else if (ch === '}' || ch === ')' || ch === ']') {
+          depth--;
+        }
+      }
+      if (depth < 0) return false;
+      // Returning to depth 0 before the last line means a second declaration follows
+      if (opened && depth === 0 && body.slice(i + 1).some(l => l.trim())) {
+        return false;
+      }
+    }
+
+    return opened && depth === 0;
+  }
+}
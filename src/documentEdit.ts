@@ -0,0 +1,72 @@
+// documentEdit.ts - Write new document text as minimal line-range edits
+import * as vscode from 'vscode';
+import { LineDiff, LineChange } from './lineDiff';
+
+/**
+ * Turn a document into `newText` by replacing only the lines that differ.
+ * All ranges go into one WorkspaceEdit, so the patch is a single undo step and
+ * cursors, folding, breakpoints and gutters outside the changes are untouched.
+ */
+export async function replaceDocumentText(document: vscode.TextDocument, newText: string): Promise<boolean> {
+    const edit = new vscode.WorkspaceEdit();
+    if (!addLineEdits(edit, document, newText)) {
+        return true;
+    }
+    return vscode.workspace.applyEdit(edit);
+}
+
+/**
+ * Add the line-range edits that turn a document into `newText` to an edit
+ * that may span several documents. False when the text is already the same.
+ * `metadata` labels each change, e.g. for the refactor preview.
+ */
+export function addLineEdits(
+    edit: vscode.WorkspaceEdit,
+    document: vscode.TextDocument,
+    newText: string,
+    metadata?: (change: LineChange) => vscode.WorkspaceEditEntryMetadata | undefined
+): boolean {
+    const oldLines = document.getText().split(/\r\n|\r|\n/);
+    const newLines = newText.split(/\r\n|\r|\n/);
+    const eol = document.eol === vscode.EndOfLine.CRLF ? '\r\n' : '\n';
+
+    const changes = LineDiff.changes(oldLines, newLines);
+    for (const change of changes) {
+        const { range, text } = lineChangeEdit(document, change, eol);
+        edit.replace(document.uri, range, text, metadata?.(change));
+    }
+    return changes.length > 0;
+}
+
+/**
+ * Document range and text for replacing whole lines, including the edge
+ * cases at the end of the document where there is no line break to anchor on
+ */
+function lineChangeEdit(document: vscode.TextDocument, change: LineChange, eol: string): { range: vscode.Range; text: string } {
+    const lastLine = document.lineCount - 1;
+    const docEnd = document.lineAt(lastLine).range.end;
+
+    if (change.oldEnd <= lastLine) {
+        // Replaced lines end before the last line: every line keeps its break
+        return {
+            range: new vscode.Range(change.oldStart, 0, change.oldEnd, 0),
+            text: change.lines.map(line => line + eol).join('')
+        };
+    }
+
+    if (change.oldStart > lastLine) {
+        // Appending after the last line
+        return { range: new vscode.Range(docEnd, docEnd), text: eol + change.lines.join(eol) };
+    }
+
+    if (change.lines.length === 0 && change.oldStart > 0) {
+        // Removing the tail of the document also removes the preceding break
+        const previousEnd = document.lineAt(change.oldStart - 1).range.end;
+        return { range: new vscode.Range(previousEnd, docEnd), text: '' };
+    }
+
+    return {
+        range: new vscode.Range(new vscode.Position(change.oldStart, 0), docEnd),
+        text: change.lines.join(eol)
+    };
+}
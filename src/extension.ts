@@ -1,123 +1,384 @@
 // extension.ts - Workspace-wide Code Block Matching & Patching
 import * as vscode from 'vscode';
 import * as path from 'path';
-import { CodePatcher, PatchOptions, Match } from './codePatcher';
+import { CodePatcher, PatchOptions, PatchResult, PatchFormat, Match, IndentStyle } from './codePatcher';
+import { ResponseParser, ResponseBlock } from './responseParser';
+import { WorkspaceSearch, SearchSettings } from './workspaceSearch';
+import { PatchPreview } from './patchPreview';
+import { LineDiff, LineChange } from './lineDiff';
+import { replaceDocumentText, addLineEdits } from './documentEdit';
+import { PatchHistory, PatchSource } from './patchHistory';
+import { WorkspaceScanner, ScanRequest } from './workspaceScanner';
+import { Declaration } from './declaration';
+import { SymbolSearch } from './symbolSearch';
+import { LineNormalizer } from './lineNormalizer';
+import { NearMissAnalyzer } from './nearMiss';
+import { NearMissView, NearMissChoice } from './nearMissView';
+import { PatchInbox } from './patchInbox';
+import { BlockLens } from './blockLens';
+import { ScanScope } from './scanScope';
+import { ContextRanking, ContextSignal, EditorContext } from './contextRanking';
+import { AiCodePatcherApi, MatchInfo, PatchCommandArgs, PatchOutcome, PatchPolicy, PatchRequest } from './api';
 
 type WorkspaceCandidate = {
     uri: vscode.Uri;
     fileContent: string;
     match: Match;
-    matchIndex: number;
-    preview?: string | null;
+    version?: number;    // Document version the match was found in (undefined when read from disk)
+    fingerprint: string; // Hash of the matched lines, see CodePatcher.fingerprint
+    pathScore?: number;  // Fit to the block's path hint, see WorkspaceSearch.pathHintScore
+    contextScore?: number;     // Sum of the signals' boosts
+    signals?: ContextSignal[]; // Editor context the candidate was ranked up for, see ContextRanking
+    detail?: string;     // Shown under the candidate in the picker
 };
 
-export function activate(context: vscode.ExtensionContext) {
+type BlockStatus = 'resolved' | 'ambiguous' | 'no-match' | 'present' | 'skipped'; // Present: already applied
+
+type BlockPlan = {
+    block: ResponseBlock;
+    candidates: WorkspaceCandidate[];
+    chosen?: WorkspaceCandidate;
+    newFile?: vscode.Uri; // Resolved to a file that does not exist yet
+    status: BlockStatus;
+};
+
+type BlockOutcome = {
+    block: ResponseBlock;
+    status: 'applied' | 'created' | 'failed' | 'cancelled' | Exclude<BlockStatus, 'resolved'>;
+    uri?: vscode.Uri;
+    line?: number;
+    match?: Match;
+    candidates?: WorkspaceCandidate[]; // Of an ambiguous block
+    message?: string;
+};
+
+type PatchContext = {
+    source: PatchSource;
+    policy: PatchPolicy;
+    review: boolean;   // Show the diff editor before writing
+    pathHint?: string;
+};
+
+const PATCH_POLICIES: PatchPolicy[] = ['interactive', 'apply-if-unambiguous'];
+
+let outputChannel: vscode.OutputChannel | undefined;
+let patchPreview: PatchPreview | undefined;
+let patchHistory: PatchHistory | undefined;
+let scanner: WorkspaceScanner | undefined;
+let scanScope: ScanScope | undefined;
+
+export function activate(context: vscode.ExtensionContext): AiCodePatcherApi {
     console.log('AI Code Patcher extension is now active');
 
+    patchPreview = new PatchPreview();
+    patchHistory = new PatchHistory(context.workspaceState);
+    scanner = new WorkspaceScanner(message => getOutputChannel().appendLine(`[${new Date().toLocaleTimeString()}] ${message}`));
+    scanScope = new ScanScope();
+    const patchInbox = new PatchInbox(async (item) => {
+        const outcome = await applyPatchAcrossWorkspace(item.text, { source: 'inbox', policy: 'interactive', review: true, pathHint: item.pathHint });
+        return ['applied', 'created', 'already-applied'].includes(outcome.status);
+    });
+    const blockLens = new BlockLens(
+        blocks => applyBlocksAcrossWorkspace(blocks, { source: 'codelens', policy: 'interactive', review: true }),
+        block => findBlockMatches(block.text, block.pathHint)
+    );
+    context.subscriptions.push(patchPreview, patchHistory, scanScope, patchInbox, blockLens);
+
     const applyPatchCommand = vscode.commands.registerCommand(
         'aiCodePatcher.applyPatch',
-        async () => {
-            const editor = vscode.window.activeTextEditor;
-            if (!editor) {
-                vscode.window.showErrorMessage('No active editor found');
-                return;
+        async (args?: PatchCommandArgs): Promise<PatchOutcome> => {
+            const uri = args?.uri !== undefined ? toUri(args.uri) : vscode.window.activeTextEditor?.document.uri;
+            if (!uri) {
+                return failed(args?.uri !== undefined ? `Cannot resolve ${args.uri}` : 'No active editor found');
+            }
+
+            const policy = args?.policy ?? 'interactive';
+            if (args?.text !== undefined) {
+                return patchRequest({ ...args, text: args.text, uri }, policy === 'interactive');
             }
+            if (!PATCH_POLICIES.includes(policy)) return failed(`Unknown policy "${policy}"`);
 
             const codeBlock = await vscode.window.showInputBox({
                 prompt: 'Paste code block with context lines (use the clipboard/selection commands for multi-line)',
                 ignoreFocusOut: true
             });
 
-            if (!codeBlock) return;
+            if (!codeBlock) return { status: 'cancelled' };
 
             // Use the *current* file only
-            await applyPatchToEditor(editor, codeBlock);
+            const document = await vscode.workspace.openTextDocument(uri);
+            return applyPatchToDocument(document, codeBlock, { source: 'input', policy, review: policy === 'interactive' });
         }
     );
 
     const applyPatchFromClipboardCommand = vscode.commands.registerCommand(
         'aiCodePatcher.applyPatchFromClipboard',
-        async () => {
-            const codeBlock = (await vscode.env.clipboard.readText())?.trim();
-            if (!codeBlock) {
-                vscode.window.showErrorMessage('Clipboard is empty');
-                return;
+        async (args?: PatchCommandArgs): Promise<PatchOutcome[]> => {
+            const codeBlock = args?.text ?? await vscode.env.clipboard.readText();
+            if (!codeBlock?.trim()) {
+                return [failed(args?.text !== undefined ? 'No code block given' : 'Clipboard is empty')];
             }
 
-            // New behavior: search the whole workspace (no need to open the target file)
-            await applyPatchAcrossWorkspace(codeBlock, { source: 'clipboard' });
+            // Search the whole workspace; multi-block responses are split and resolved per block
+            return applyResponseCommand(codeBlock, args?.text !== undefined ? 'api' : 'clipboard', args);
         }
     );
 
     const applyPatchFromSelectionCommand = vscode.commands.registerCommand(
         'aiCodePatcher.applyPatchFromSelection',
-        async () => {
+        async (args?: PatchCommandArgs): Promise<PatchOutcome[]> => {
+            if (args?.text !== undefined) {
+                return applyResponseCommand(args.text, 'api', args);
+            }
+
             const editor = vscode.window.activeTextEditor;
             if (!editor) {
-                vscode.window.showErrorMessage('No active editor found');
-                return;
+                return [failed('No active editor found')];
             }
 
             const selection = editor.selection;
-            const selectedText = editor.document.getText(selection)?.trim();
+            const selectedText = editor.document.getText(selection);
 
-            if (!selectedText) {
+            if (!selectedText?.trim()) {
                 vscode.window.showInformationMessage(
                     'No text selected. Select the code block you want to apply (include 1–3 unchanged context lines before/after), then run this command again.'
                 );
+                return [{ status: 'cancelled', message: 'No text selected' }];
+            }
+
+            // Use selection as the *patch*, then search the whole workspace
+            return applyResponseCommand(selectedText, 'selection', args);
+        }
+    );
+
+    const applyPatchEverywhereCommand = vscode.commands.registerCommand(
+        'aiCodePatcher.applyPatchEverywhere',
+        async () => {
+            const codeBlock = await vscode.env.clipboard.readText();
+            if (!codeBlock?.trim()) {
+                vscode.window.showErrorMessage('Clipboard is empty');
                 return;
             }
 
-            // New behavior: use selection as the *patch*, then search the whole workspace
-            await applyPatchAcrossWorkspace(selectedText, { source: 'selection' });
+            // One block, applied at every location the user ticks
+            await applyPatchEverywhere(codeBlock, { source: 'clipboard' });
         }
     );
 
     context.subscriptions.push(
         applyPatchCommand,
         applyPatchFromClipboardCommand,
-        applyPatchFromSelectionCommand
+        applyPatchFromSelectionCommand,
+        applyPatchEverywhereCommand
     );
+
+    return {
+        version: 1,
+        findMatches: (request) => findMatches(request),
+        preview: (request) => patchRequest(request, true),
+        apply: (request) => patchRequest(request, false)
+    };
+}
+
+/**
+ * Patch the one block of an API request or command arguments, in the given
+ * file or across the workspace
+ */
+async function patchRequest(request: PatchRequest, review: boolean, source: PatchSource = 'api'): Promise<PatchOutcome> {
+    const policy = request.policy ?? 'interactive';
+    if (!PATCH_POLICIES.includes(policy)) return failed(`Unknown policy "${policy}"`);
+
+    const block = requestBlock(request.text, request.format);
+    if (typeof block === 'string') return failed(block);
+
+    const ctx: PatchContext = { source, policy, review, pathHint: request.pathHint ?? block.pathHint };
+    if (!request.uri) {
+        return applyPatchAcrossWorkspace(block.text, ctx);
+    }
+
+    let document: vscode.TextDocument;
+    try {
+        document = await vscode.workspace.openTextDocument(request.uri);
+    } catch (err) {
+        return { ...failed(`Cannot open ${relPath(request.uri)}: ${(err as Error).message}`), uri: request.uri };
+    }
+    return applyPatchToDocument(document, block.text, ctx);
+}
+
+/**
+ * The clipboard and selection commands. A target URI means one block for
+ * that file; otherwise every block of the response is resolved across the workspace.
+ */
+async function applyResponseCommand(text: string, source: PatchSource, args?: PatchCommandArgs): Promise<PatchOutcome[]> {
+    const policy = args?.policy ?? 'interactive';
+    if (args?.uri !== undefined) {
+        const uri = toUri(args.uri);
+        return [uri ? await patchRequest({ ...args, text, uri }, policy === 'interactive', source) : failed(`Cannot resolve ${args.uri}`)];
+    }
+    if (!PATCH_POLICIES.includes(policy)) return [failed(`Unknown policy "${policy}"`)];
+
+    const wrong = args?.format && ResponseParser.splitBlocks(text).find(b => b.format !== args.format);
+    if (wrong) {
+        return [failed(`Declared format "${args.format}" but block ${wrong.index + 1} reads as "${wrong.format}"`)];
+    }
+    return applyBlocksAcrossWorkspace(ResponseParser.splitBlocks(text), { source, policy, review: policy === 'interactive', pathHint: args?.pathHint });
+}
+
+/**
+ * Every location a block matches, best first, without asking or writing anything
+ */
+async function findMatches(request: Omit<PatchRequest, 'policy'>): Promise<MatchInfo[]> {
+    const block = requestBlock(request.text, request.format);
+    if (typeof block === 'string') throw new Error(block);
+
+    if (request.uri) {
+        const document = await vscode.workspace.openTextDocument(request.uri);
+        const result = CodePatcher.patch(document.getText(), block.text, withFileOptions(getOptions(), document.uri));
+        return result.matches.map(match => matchInfo({ uri: document.uri, match, detail: summarizeHunks(result) }));
+    }
+    return (await findBlockMatches(block.text, request.pathHint ?? block.pathHint)) ?? [];
+}
+
+/**
+ * Scan the workspace for a block without asking anything. Undefined when the
+ * scan could not run or was cancelled.
+ */
+async function findBlockMatches(codeBlock: string, pathHint?: string): Promise<MatchInfo[] | undefined> {
+    const candidates = await vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Notification, title: 'AI Code Patcher: Scanning workspace…', cancellable: true },
+        async (progress, token) => {
+            const found = await scanWorkspace(codeBlock, getOptions(), progress, token, undefined, pathHint);
+            return token.isCancellationRequested ? undefined : found;
+        }
+    );
+    return candidates?.map(matchInfo);
+}
+
+/**
+ * The single block of a request, or why there is none
+ */
+function requestBlock(text: string, format?: PatchFormat): ResponseBlock | string {
+    const blocks = ResponseParser.splitBlocks(text);
+    if (blocks.length !== 1) {
+        return blocks.length === 0 ? 'No code block given' : `Expected one code block, got ${blocks.length}`;
+    }
+    if (format && blocks[0].format !== format) {
+        return `Declared format "${format}" but the block reads as "${blocks[0].format}"`;
+    }
+    return blocks[0];
+}
+
+/**
+ * A command argument as a URI: a URI (or its string form), an absolute path,
+ * or a path relative to the first workspace folder
+ */
+function toUri(value: vscode.Uri | string): vscode.Uri | undefined {
+    if (typeof value !== 'string') return value;
+    if (path.isAbsolute(value)) return vscode.Uri.file(value);
+    if (/^[a-z][\w+.-]+:/i.test(value)) return vscode.Uri.parse(value);
+
+    const folder = vscode.workspace.workspaceFolders?.[0];
+    return folder && vscode.Uri.joinPath(folder.uri, value);
+}
+
+function matchInfo(located: { uri: vscode.Uri; match: Match; detail?: string }): MatchInfo {
+    const { match } = located;
+    return {
+        uri: located.uri,
+        range: new vscode.Range(match.startLine, 0, match.endLine, 0),
+        confidence: match.confidence,
+        contextLines: match.contextMatchLength ?? 0,
+        applied: !!match.applied,
+        normalizations: match.normalizations ?? [],
+        detail: located.detail
+    };
+}
+
+/**
+ * Show an error and return it as the outcome
+ */
+function failed(message: string): PatchOutcome {
+    vscode.window.showErrorMessage(message);
+    return { status: 'failed', message };
+}
+
+function appliedOutcome(uri: vscode.Uri, match: Match): PatchOutcome {
+    return { status: 'applied', uri, match: matchInfo({ uri, match }) };
+}
+
+/**
+ * A block the non-interactive policy may not decide; nothing is written
+ */
+function ambiguousOutcome(candidates: Array<{ uri: vscode.Uri; match: Match; detail?: string }>): PatchOutcome {
+    const message = `${candidates.length} matches are too close to choose between; nothing was applied.`;
+    vscode.window.showWarningMessage(message);
+    return { status: 'ambiguous', candidates: candidates.map(matchInfo), message };
 }
 
 function getOptions(): PatchOptions {
     const config = vscode.workspace.getConfiguration('aiCodePatcher');
+    const elisionMarkers = config.get<Record<string, string[]>>('elisionMarkers', CodePatcher.DEFAULT_ELISION_MARKERS);
+    const profile = config.get<string>('normalizationProfile', 'auto');
     return {
         fuzzyMatch: config.get('fuzzyMatch', true),
+        fuzzyThreshold: config.get('fuzzyThreshold', CodePatcher.DEFAULT_FUZZY_THRESHOLD),
         minConfidence: config.get('minConfidence', 0.6),
-        contextLines: config.get('contextLines', 2)
+        contextLines: config.get('contextLines', 2),
+        elisionMarkers: Object.values(elisionMarkers ?? {}).flat(),
+        normalization: profile === 'auto' ? undefined : LineNormalizer.PROFILES[profile]
     };
 }
 
-function getWorkspaceSearchConfig() {
-    const config = vscode.workspace.getConfiguration('aiCodePatcher');
+/**
+ * Prefer the indentation settings of an editor showing the file; otherwise
+ * CodePatcher detects the style from the file content. The language (for
+ * normalisation) comes from an open document, else from the file extension.
+ */
+function withFileOptions(options: PatchOptions, uri: vscode.Uri): PatchOptions {
+    const document = vscode.workspace.textDocuments.find(d => d.uri.toString() === uri.toString());
+    const languageId = options.languageId ?? document?.languageId ?? LineNormalizer.languageForPath(uri.path);
+
+    const editor = vscode.window.visibleTextEditors.find(e => e.document.uri.toString() === uri.toString());
+    const insertSpaces = editor?.options.insertSpaces;
+    const tabSize = editor?.options.tabSize;
+    if (typeof insertSpaces !== 'boolean' || typeof tabSize !== 'number') {
+        return { ...options, languageId };
+    }
+    return { ...options, languageId, indentStyle: { insertSpaces, tabSize } };
+}
 
-    // Allow both string and string[] for include/exclude globs
-    const defaultInclude = '**/*.{ts,tsx,js,jsx,mjs,cjs,php,py,rb,go,java,cs,cpp,c,h,html,css,scss,json,md,xml,yaml,yml,ini,sh,bat,ps1}';
-    const defaultExclude = '{**/node_modules/**,**/.git/**,**/out/**,**/dist/**,**/build/**,**/.cache/**,**/.next/**,**/.parcel-cache/**,**/.turbo/**,**/vendor/**,**/languages/**,**/data/**,**/media/**}';
+function getWorkspaceSearchConfig(): SearchSettings {
+    const config = vscode.workspace.getConfiguration('aiCodePatcher');
 
-    const includeGlobs = config.get<string | string[]>('includeGlobs', defaultInclude);
-    const excludeGlobs = config.get<string | string[]>('excludeGlobs', defaultExclude);
-    const maxFiles = config.get<number>('maxFiles', 2000);
+    const includeGlobs = config.get<string | string[]>('includeGlobs', WorkspaceSearch.DEFAULT_INCLUDE);
+    const excludeGlobs = config.get<string | string[]>('excludeGlobs', WorkspaceSearch.DEFAULT_EXCLUDE);
+    const maxFiles = config.get<number>('maxFiles', WorkspaceSearch.DEFAULT_MAX_FILES);
     const autoApplySingleMatch = config.get<boolean>('autoApplySingleMatch', false);
-    const tieBreakDelta = config.get<number>('tieBreakDelta', 0.03); // 3% confidence difference considered a "tie"
+    const tieBreakDelta = config.get<number>('tieBreakDelta', WorkspaceSearch.DEFAULT_TIE_BREAK_DELTA);
+    const maxFileSize = config.get<number>('maxFileSize', WorkspaceSearch.MAX_FILE_SIZE);
+    const respectGitIgnore = config.get<boolean>('respectGitIgnore', true);
+    const symbolMatch = config.get<boolean>('symbolMatch', true);
 
-    const include = Array.isArray(includeGlobs) ? `{${includeGlobs.join(',')}}` : includeGlobs;
-    const exclude = Array.isArray(excludeGlobs) ? `{${excludeGlobs.join(',')}}` : excludeGlobs;
+    const include = WorkspaceSearch.joinGlobs(includeGlobs);
+    const exclude = WorkspaceSearch.joinGlobs(excludeGlobs);
 
-    return { include, exclude, maxFiles, autoApplySingleMatch, tieBreakDelta };
+    return { include, exclude, maxFiles, maxFileSize, respectGitIgnore, symbolMatch, autoApplySingleMatch, tieBreakDelta };
 }
 
-async function applyPatchAcrossWorkspace(codeBlock: string, ctx: { source: 'selection' | 'clipboard' }) {
+/**
+ * Scan the workspace for one block and apply it where the policy, or the
+ * user, picks
+ */
+async function applyPatchAcrossWorkspace(codeBlock: string, ctx: PatchContext): Promise<PatchOutcome> {
     if (!vscode.workspace.workspaceFolders?.length) {
-        vscode.window.showErrorMessage('No workspace folder open.');
-        return;
+        return failed('No workspace folder open.');
     }
 
     const options = getOptions();
-    const { include, exclude, maxFiles, autoApplySingleMatch, tieBreakDelta } = getWorkspaceSearchConfig();
+    const { autoApplySingleMatch, tieBreakDelta } = getWorkspaceSearchConfig();
 
-    await vscode.window.withProgress(
+    let cancelled = false;
+    const candidates = await vscode.window.withProgress(
         {
             location: vscode.ProgressLocation.Notification,
             title: 'AI Code Patcher: Scanning workspace for best match…',
@@ -128,196 +389,1020 @@ async function applyPatchAcrossWorkspace(codeBlock: string, ctx: { source: 'sele
                 console.log('Scan cancelled by user.');
             });
 
-            const uris = await vscode.workspace.findFiles(include, exclude, maxFiles);
-            if (uris.length === 0) {
-                vscode.window.showWarningMessage('No files matched your search globs. Check aiCodePatcher.includeGlobs/excludeGlobs settings.');
-                return;
-            }
+            const found = await scanWorkspace(codeBlock, options, progress, token, undefined, ctx.pathHint);
+            cancelled = token.isCancellationRequested;
+            return cancelled ? undefined : found;
+        }
+    );
+    if (!candidates) return { status: cancelled ? 'cancelled' : 'failed' };
 
-            let checked = 0;
-            const candidates: WorkspaceCandidate[] = [];
+    if (candidates.length === 0) {
+        return offerNewFile(codeBlock, options, ctx);
+    }
 
-            for (const uri of uris) {
-                if (token.isCancellationRequested) break;
+    // Where the block is already in place there is nothing to do; other locations are only offered on request
+    const present = candidates.find(c => c.match.applied);
+    if (present) {
+        const message = `Already applied in ${relPath(present.uri)} at line ${present.match.startLine + 1}; nothing to do.`;
+        const outcome: PatchOutcome = { status: 'already-applied', uri: present.uri, match: matchInfo(present), message };
+        const others = candidates.filter(c => !c.match.applied);
+        if (others.length === 0 || ctx.policy !== 'interactive') {
+            vscode.window.showInformationMessage(message);
+            return outcome;
+        }
 
-                // Update progress every ~50 files
-                if (checked % 50 === 0) {
-                    progress.report({ message: `Searching… (${checked}/${uris.length})` });
-                    await new Promise(r => setTimeout(r, 0));
-                }
+        const choice = await vscode.window.showInformationMessage(message, 'Apply Elsewhere…');
+        const chosen = choice && await pickCandidate(others, `Found ${others.length} other match${others.length > 1 ? 'es' : ''}. Choose where to apply:`);
+        const elsewhere = chosen && await applyCandidate(chosen, codeBlock, options, ctx);
+        return elsewhere?.status === 'applied' ? elsewhere : outcome;
+    }
 
-                // Skip very large files quickly (best-effort)
-                try {
-                    const doc = await vscode.workspace.openTextDocument(uri);
-                    const text = doc.getText();
-                    if (!text || text.length > 2_000_000) { // ~2MB guard
-                        checked++;
-                        continue;
-                    }
-
-                    const result = CodePatcher.patch(text, codeBlock, options);
-                    if (result.success && result.matches.length) {
-                        // take the best match in this file (index 0 after sort done in CodePatcher)
-                        const matchIndex = 0;
-                        const match = result.matches[matchIndex];
-                        // precompute preview so we can show it later without reopening the doc
-                        const preview = CodePatcher.previewPatch(text, codeBlock, matchIndex, options);
-
-                        candidates.push({ uri, fileContent: text, match, matchIndex, preview });
-                    }
-                } catch {
-                    // Ignore unreadable/unsupported files
-                }
+    const top = candidates[0];
+    const haveCloseTie = WorkspaceSearch.hasCloseTie(candidates, tieBreakDelta);
 
-                checked++;
-            }
+    if (ctx.policy === 'apply-if-unambiguous') {
+        return haveCloseTie ? ambiguousOutcome(candidates) : applyCandidate(WorkspaceSearch.best(candidates)!, codeBlock, options, ctx);
+    }
 
-            if (token.isCancellationRequested) return;
+    // If there's exactly one candidate, or a clear winner, maybe auto-apply.
+    // Patches that came in over the network are always previewed.
+    if (!haveCloseTie && (candidates.length === 1 && autoApplySingleMatch)) {
+        return ctx.source === 'inbox' ? applyCandidate(top, codeBlock, options, ctx) : openAndApply(top, codeBlock, options, ctx);
+    }
 
-            if (candidates.length === 0) {
-                vscode.window.showWarningMessage('No matches found in the workspace. Try adding more unique context lines or lowering minConfidence.');
-                return;
+    // Otherwise let the user choose
+    const chosen = await pickCandidate(candidates, `Found ${candidates.length} match${candidates.length > 1 ? 'es' : ''}. Choose where to apply:`);
+    if (!chosen) return { status: 'cancelled' };
+
+    return applyCandidate(chosen, codeBlock, options, ctx);
+}
+
+/**
+ * Write a chosen candidate, through the diff editor when reviewing
+ */
+function applyCandidate(
+    candidate: WorkspaceCandidate,
+    codeBlock: string,
+    options: PatchOptions,
+    ctx: PatchContext,
+    note: string = ''
+): Promise<PatchOutcome> {
+    return ctx.review ? previewCandidate(candidate, codeBlock, options, ctx, note) : openAndApply(candidate, codeBlock, options, ctx);
+}
+
+/**
+ * Review a chosen candidate in the diff editor and apply it on accept
+ */
+async function previewCandidate(
+    candidate: WorkspaceCandidate,
+    codeBlock: string,
+    options: PatchOptions,
+    ctx: PatchContext,
+    note: string = ''
+): Promise<PatchOutcome> {
+    // The file may have changed while the quick pick was open
+    const current = await revalidateCandidate(candidate, codeBlock, options, ctx.policy === 'interactive');
+    if (!current) return { status: 'failed', uri: candidate.uri, message: 'The target changed since the scan' };
+
+    const fileContent = current.document.getText();
+    const proposed = CodePatcher.applyReplacement(fileContent, current.match, codeBlock, withFileOptions(options, candidate.uri));
+    return previewAndApply(candidate.uri, fileContent, proposed, `${relPath(candidate.uri)} (line ${current.match.startLine + 1}${note})`, ctx.source, current.match);
+}
+
+/**
+ * After a block matched nowhere: report the closest regions in the workspace
+ * and resolve to the one the user picks to apply the block at anyway
+ */
+async function pickNearMiss(codeBlock: string, options: PatchOptions, pathHint?: string): Promise<WorkspaceCandidate | undefined> {
+    const request = scanRequest(codeBlock, options, pathHint);
+    if (!request) return undefined;
+
+    const found = await vscode.window.withProgress(
+        {
+            location: vscode.ProgressLocation.Notification,
+            title: 'AI Code Patcher: Looking for near misses…',
+            cancellable: true
+        },
+        (_progress, token) => scanner!.findNearMisses(request, 10, () => token.isCancellationRequested)
+    );
+
+    const choice = await NearMissView.show(
+        found.map(f => ({ uri: vscode.Uri.file(f.file), text: f.text, report: f.report })),
+        getOutputChannel(),
+        `Near misses for "${firstNonEmptyLine(codeBlock)}"`
+    );
+    return choice && nearMissCandidate(choice);
+}
+
+function nearMissCandidate(choice: NearMissChoice, version?: number): WorkspaceCandidate {
+    return {
+        uri: choice.uri,
+        fileContent: choice.text,
+        match: choice.match,
+        version,
+        fingerprint: CodePatcher.fingerprint(choice.text, choice.match),
+        detail: 'Near miss, applied anyway'
+    };
+}
+
+/**
+ * What to scan for a block: the workspace folders on disk, with unsaved
+ * editors winning over the file on disk. Undefined (after telling the user)
+ * when there is no folder on disk.
+ */
+function scanRequest(codeBlock: string, options: PatchOptions, pathHint?: string): ScanRequest | undefined {
+    const { include, exclude, maxFiles, maxFileSize, respectGitIgnore } = getWorkspaceSearchConfig();
+
+    const roots = (vscode.workspace.workspaceFolders ?? []).filter(f => f.uri.scheme === 'file').map(f => f.uri.fsPath);
+    if (roots.length === 0) {
+        vscode.window.showWarningMessage('Workspace scanning needs a folder on disk.');
+        return undefined;
+    }
+
+    const dirty = vscode.workspace.textDocuments.filter(d => d.isDirty && d.uri.scheme === 'file');
+    const overrides = new Map(dirty.map(d => [d.uri.fsPath, d.getText()] as [string, string]));
+
+    const scope = scanScope?.paths();
+    if (scope?.length === 0) {
+        vscode.window.showWarningMessage(`The scan scope (${scanScope!.label}) holds no files. Use "Set Scan Scope…" to widen it.`);
+        return undefined;
+    }
+
+    const indentStyles: Record<string, IndentStyle> = {};
+    for (const editor of vscode.window.visibleTextEditors) {
+        const style = withFileOptions(options, editor.document.uri).indentStyle;
+        if (style && editor.document.uri.scheme === 'file') indentStyles[editor.document.uri.fsPath] = style;
+    }
+
+    return { roots, include, exclude, maxFiles, maxFileSize, respectGitIgnore, pathHint, codeBlock, options, overrides, indentStyles, scope };
+}
+
+/**
+ * What the user is working on, for ranking candidates (see ContextRanking)
+ */
+function editorContext(): EditorContext {
+    const active = vscode.window.activeTextEditor;
+    const fsPaths = (uris: vscode.Uri[]) => uris.filter(uri => uri.scheme === 'file').map(uri => uri.fsPath);
+
+    return {
+        activeFile: active && fsPaths([active.document.uri])[0],
+        cursorLine: active?.selection.active.line,
+        visibleFiles: fsPaths(vscode.window.visibleTextEditors.map(e => e.document.uri)),
+        openFiles: fsPaths(ScanScope.openFiles()),
+        changedFiles: fsPaths(ScanScope.changedFiles()),
+        recentlyPatched: fsPaths(patchHistory?.recentFiles(Date.now() - ContextRanking.RECENT_PATCH_WINDOW) ?? [])
+    };
+}
+
+/**
+ * Add the editor context boosts and sort best-first
+ */
+function rankByContext(candidates: WorkspaceCandidate[]): WorkspaceCandidate[] {
+    const context = editorContext();
+    for (const c of candidates) {
+        c.signals = c.uri.scheme === 'file' ? ContextRanking.signals(c.uri.fsPath, c.match, context) : [];
+        c.contextScore = ContextRanking.total(c.signals);
+    }
+    return candidates.sort((a, b) => WorkspaceSearch.compareCandidates(a, b));
+}
+
+/**
+ * Scan the workspace for the best match of a block in every file (every match with `allMatches`).
+ * Files are read from disk (unsaved editors win) without opening documents.
+ * A path hint (e.g. from diff headers) limits the scan to files at that path when any exist.
+ * Returns candidates sorted best-first, or undefined if the scan could not run.
+ */
+async function scanWorkspace(
+    codeBlock: string,
+    options: PatchOptions,
+    progress: vscode.Progress<{ message?: string }>,
+    token: vscode.CancellationToken,
+    label: string = 'Searching…',
+    pathHint?: string,
+    allMatches: boolean = false
+): Promise<WorkspaceCandidate[] | undefined> {
+    const { symbolMatch } = getWorkspaceSearchConfig();
+    const request = scanRequest(codeBlock, options, pathHint);
+    if (!request) return undefined;
+    request.allMatches = allMatches;
+
+    const dirty = vscode.workspace.textDocuments.filter(d => d.isDirty && d.uri.scheme === 'file');
+    const versions = new Map(dirty.map(d => [d.uri.fsPath, d.version] as [string, number]));
+    const summary = await scanner!.scan(
+        request,
+        (done, total) => progress.report({ message: `${label} (${done}/${total})` }),
+        () => token.isCancellationRequested
+    );
+    if (summary.files === 0) {
+        vscode.window.showWarningMessage(request.scope
+            ? `No files in the scan scope (${scanScope!.label}) matched your search globs.`
+            : 'No files matched your search globs. Check aiCodePatcher.includeGlobs/excludeGlobs settings.');
+        return undefined;
+    }
+
+    // Hits come sorted by confidence (desc), then by context matched (desc)
+    const candidates: WorkspaceCandidate[] = summary.hits.map(hit => ({
+        uri: vscode.Uri.file(hit.file),
+        fileContent: hit.text,
+        match: hit.match,
+        version: versions.get(hit.file),
+        fingerprint: CodePatcher.fingerprint(hit.text, hit.match),
+        pathScore: hit.pathScore,
+        detail: summarizeHunks(hit)
+    }));
+
+    const declaration = symbolMatch && !token.isCancellationRequested ? Declaration.parse(codeBlock, options) : undefined;
+    if (!declaration) {
+        return rankByContext(candidates);
+    }
+
+    // A whole declaration: replace the symbol's full range wherever the language server finds it
+    progress.report({ message: `${label} (symbols)` });
+    const escaped = declaration.name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const files = await scanner!.findFilesContaining(request, new RegExp(`\\b${escaped}\\b`), SymbolSearch.MAX_FILES);
+    const symbols = await SymbolSearch.findCandidates(
+        declaration,
+        codeBlock,
+        files.map(file => vscode.Uri.file(file)),
+        uri => withFileOptions(options, uri),
+        token
+    );
+
+    const overlaps = (a: WorkspaceCandidate, b: { uri: vscode.Uri; match: Match }) =>
+        a.uri.fsPath === b.uri.fsPath && a.match.startLine < b.match.endLine && b.match.startLine < a.match.endLine;
+    const merged: WorkspaceCandidate[] = [
+        ...symbols.map(s => ({
+            uri: s.uri,
+            fileContent: s.fileContent,
+            match: s.match,
+            version: s.version,
+            fingerprint: CodePatcher.fingerprint(s.fileContent, s.match),
+            pathScore: pathHint ? WorkspaceSearch.pathHintScore(relPath(s.uri), pathHint) : undefined,
+            detail: `Symbol ${s.symbol}`
+        })),
+        ...candidates.filter(c => !symbols.some(s => overlaps(c, s)))
+    ];
+
+    return rankByContext(merged);
+}
+
+async function pickCandidate(candidates: WorkspaceCandidate[], placeHolder: string): Promise<WorkspaceCandidate | undefined> {
+    const pickItems = candidates.slice(0, 30).map((c) => {
+        const confidence = (c.match.confidence * 100).toFixed(0);
+        const context = c.match.contextMatchLength ?? 0;
+        const line = c.match.startLine + 1;
+        const pathNote = c.pathScore ? `, path hint ${(c.pathScore * 100).toFixed(0)}%` : '';
+        const contextNote = c.signals?.length ? `, ${ContextRanking.describe(c.signals)}` : '';
+
+        return {
+            label: c.match.applied ? `$(check) ${relPath(c.uri)}` : relPath(c.uri),
+            description: `Line ${line} — ${c.match.applied ? 'already applied, ' : ''}${confidence}% confidence, ${context} context lines${pathNote}${contextNote}${normalizationNote(c.match)}`,
+            detail: c.detail ?? firstLineOfFile(c.fileContent, c.match.startLine),
+            candidate: c
+        } as vscode.QuickPickItem & { candidate: WorkspaceCandidate };
+    });
+
+    const selected = await vscode.window.showQuickPick(pickItems, {
+        placeHolder,
+        matchOnDescription: true,
+        matchOnDetail: true
+    });
+
+    return selected?.candidate;
+}
+
+/**
+ * Apply one block (e.g. repeated boilerplate) at every location it matches.
+ * All matches above minConfidence are listed for ticking, and the ticked ones
+ * are written as a single WorkspaceEdit: either all of them land or none.
+ */
+async function applyPatchEverywhere(text: string, ctx: { source: PatchSource }) {
+    const blocks = ResponseParser.splitBlocks(text);
+    if (blocks.length !== 1) {
+        vscode.window.showErrorMessage(
+            blocks.length === 0 ? 'No code blocks found.' : `Found ${blocks.length} code blocks. Copy a single block to apply it at every match.`
+        );
+        return;
+    }
+    if (!vscode.workspace.workspaceFolders?.length) {
+        vscode.window.showErrorMessage('No workspace folder open.');
+        return;
+    }
+
+    const { text: codeBlock, pathHint } = blocks[0];
+    const options = getOptions();
+    const { tieBreakDelta } = getWorkspaceSearchConfig();
+
+    const candidates = await vscode.window.withProgress(
+        {
+            location: vscode.ProgressLocation.Notification,
+            title: 'AI Code Patcher: Scanning workspace for every match…',
+            cancellable: true
+        },
+        async (progress, token) => {
+            // No path hint: it would narrow the scan to a single file
+            const found = await scanWorkspace(codeBlock, options, progress, token, undefined, undefined, true);
+            return token.isCancellationRequested ? undefined : found;
+        }
+    );
+    if (!candidates) return;
+
+    if (candidates.length === 0) {
+        const action = await vscode.window.showWarningMessage('No matches found for the block in the workspace.', 'Show Near Misses');
+        const chosen = action && await pickNearMiss(codeBlock, options, pathHint);
+        if (chosen) {
+            await previewCandidate(chosen, codeBlock, options, { ...ctx, policy: 'interactive', review: true }, ', applied anyway');
+        }
+        return;
+    }
+
+    const chosen = await pickCandidates(candidates, tieBreakDelta);
+    if (!chosen?.length) return;
+
+    await applyCandidates(chosen, codeBlock, options, ctx.source);
+}
+
+/**
+ * Tick list of candidates in file order. Matches as good as the best one
+ * start ticked; weaker ones, and places already patched, have to be ticked by hand.
+ */
+async function pickCandidates(candidates: WorkspaceCandidate[], tieBreakDelta: number): Promise<WorkspaceCandidate[] | undefined> {
+    const best = Math.max(...candidates.filter(c => !c.match.applied).map(c => c.match.confidence));
+    const files = new Set(candidates.map(c => c.uri.toString())).size;
+    const ordered = [...candidates].sort((a, b) => relPath(a.uri).localeCompare(relPath(b.uri)) || a.match.startLine - b.match.startLine);
+
+    const items = ordered.map(c => ({
+        label: `${c.match.applied ? '$(check) ' : ''}${relPath(c.uri)}:${c.match.startLine + 1}`,
+        description: c.match.applied
+            ? 'Already applied'
+            : `${(c.match.confidence * 100).toFixed(0)}% confidence, ${c.match.contextMatchLength ?? 0} context lines${c.signals?.length ? `, ${ContextRanking.describe(c.signals)}` : ''}${normalizationNote(c.match)}`,
+        detail: c.detail ?? firstLineOfFile(c.fileContent, c.match.startLine),
+        picked: !c.match.applied && c.match.confidence >= best - tieBreakDelta,
+        candidate: c
+    } as vscode.QuickPickItem & { candidate: WorkspaceCandidate }));
+
+    const selected = await vscode.window.showQuickPick(items, {
+        placeHolder: `Found ${candidates.length} match${candidates.length === 1 ? '' : 'es'} in ${files} file${files === 1 ? '' : 's'}. Tick the locations to patch:`,
+        canPickMany: true,
+        matchOnDescription: true,
+        matchOnDetail: true,
+        ignoreFocusOut: true
+    });
+
+    return selected?.map(item => item.candidate);
+}
+
+/**
+ * Patch several locations, possibly several per file, in one WorkspaceEdit.
+ * Every file is checked against the scan first; locations whose code changed
+ * or that now overlap a better one are left out once the user agrees.
+ */
+async function applyCandidates(candidates: WorkspaceCandidate[], codeBlock: string, options: PatchOptions, source: PatchSource) {
+    const byFile = new Map<string, WorkspaceCandidate[]>();
+    for (const c of candidates) {
+        byFile.set(c.uri.toString(), [...(byFile.get(c.uri.toString()) ?? []), c]);
+    }
+
+    const files: Array<{ document: vscode.TextDocument; before: string; after: string; matches: Match[] }> = [];
+    const leftOut: string[] = [];
+
+    for (const group of byFile.values()) {
+        const document = await vscode.workspace.openTextDocument(group[0].uri);
+        const before = document.getText();
+        const fileOptions = withFileOptions(options, document.uri);
+
+        const located: Match[] = [];
+        for (const c of group.sort((a, b) => b.match.confidence - a.match.confidence)) {
+            const relocation = CodePatcher.relocateMatch(before, codeBlock, c.match, c.fingerprint, fileOptions);
+            if (relocation && !relocation.changed) {
+                located.push(relocation.match);
+            } else {
+                leftOut.push(`${relPath(c.uri)}:${c.match.startLine + 1} changed since the scan`);
             }
+        }
 
-            // Sort by confidence (desc), then by context matched (desc)
-            candidates.sort((a, b) => {
-                const diff = b.match.confidence - a.match.confidence;
-                if (Math.abs(diff) > 1e-6) return diff;
-                return (b.match.contextMatchLength ?? 0) - (a.match.contextMatchLength ?? 0);
-            });
+        const matches = CodePatcher.nonOverlapping(located);
+        if (matches.length < located.length) {
+            leftOut.push(`${located.length - matches.length} overlapping location(s) in ${relPath(document.uri)}`);
+        }
+        if (matches.length > 0) {
+            files.push({ document, before, after: CodePatcher.applyReplacements(before, matches, codeBlock, fileOptions), matches });
+        }
+    }
 
-            const top = candidates[0];
-            const second = candidates[1];
-            const haveCloseTie = !!second && (top.match.confidence - second.match.confidence) < tieBreakDelta;
+    const count = files.reduce((n, f) => n + f.matches.length, 0);
+    if (count === 0) {
+        vscode.window.showWarningMessage(`Nothing was applied: ${leftOut.join('; ')}.`);
+        return;
+    }
+    if (leftOut.length > 0) {
+        const choice = await vscode.window.showWarningMessage(
+            `${leftOut.join('; ')}. Apply the other ${count} location${count === 1 ? '' : 's'}?`,
+            { modal: true },
+            'Apply'
+        );
+        if (choice !== 'Apply') return;
+    }
 
-            // If there's exactly one candidate, or a clear winner, maybe auto-apply
-            if (!haveCloseTie && (candidates.length === 1 && autoApplySingleMatch)) {
-                await openAndApply(top, codeBlock, options);
-                vscode.window.showInformationMessage(
-                    `✓ Patch applied to ${relPath(top.uri)} at line ${top.match.startLine + 1} (${(top.match.confidence * 100).toFixed(0)}% confidence)`
-                );
-                return;
+    // The edit is built from the texts checked above, so none may have moved on since
+    const edit = new vscode.WorkspaceEdit();
+    for (const f of files) {
+        if (f.document.getText() !== f.before) {
+            vscode.window.showWarningMessage(`${relPath(f.document.uri)} was edited in the meantime. Nothing was applied.`);
+            return;
+        }
+        addLineEdits(edit, f.document, f.after);
+    }
+    if (!(await vscode.workspace.applyEdit(edit))) {
+        vscode.window.showErrorMessage('Failed to apply edit to the workspace');
+        return;
+    }
+
+    const channel = getOutputChannel();
+    channel.appendLine(`[${new Date().toLocaleTimeString()}] Applied "${firstNonEmptyLine(codeBlock)}" at ${count} location${count === 1 ? '' : 's'}`);
+    for (const f of files) {
+        const range = {
+            startLine: Math.min(...f.matches.map(m => m.startLine)),
+            endLine: Math.max(...f.matches.map(m => m.endLine))
+        };
+        await patchHistory?.record(source, f.document.uri, range, f.before, f.document.getText());
+        for (const m of [...f.matches].sort((a, b) => a.startLine - b.startLine)) {
+            channel.appendLine(`  ${relPath(f.document.uri)}:${m.startLine + 1} (${(m.confidence * 100).toFixed(0)}% confidence)`);
+        }
+    }
+    leftOut.forEach(note => channel.appendLine(`  Left out: ${note}`));
+    channel.appendLine('');
+
+    const choice = await vscode.window.showInformationMessage(
+        `✓ Patch applied at ${count} location${count === 1 ? '' : 's'} in ${files.length} file${files.length === 1 ? '' : 's'}`,
+        'Show Details'
+    );
+    if (choice) channel.show(true);
+}
+
+/**
+ * Apply the blocks of a response. A single block goes through the regular
+ * workspace flow; several blocks are resolved independently, reviewed
+ * together (unless the policy decides) and then applied in one pass.
+ */
+async function applyBlocksAcrossWorkspace(blocks: ResponseBlock[], ctx: PatchContext): Promise<PatchOutcome[]> {
+    if (blocks.length === 0) {
+        return [failed('No code blocks found.')];
+    }
+    if (blocks.length === 1) {
+        return [await applyPatchAcrossWorkspace(blocks[0].text, { ...ctx, pathHint: ctx.pathHint ?? blocks[0].pathHint })];
+    }
+    if (!vscode.workspace.workspaceFolders?.length) {
+        return [failed('No workspace folder open.')];
+    }
+
+    const options = getOptions();
+    const { tieBreakDelta } = getWorkspaceSearchConfig();
+
+    let cancelled = false;
+    const plans = await vscode.window.withProgress(
+        {
+            location: vscode.ProgressLocation.Notification,
+            title: `AI Code Patcher: Resolving ${blocks.length} code blocks…`,
+            cancellable: true
+        },
+        async (progress, token) => {
+            const resolved: BlockPlan[] = [];
+            for (const block of blocks) {
+                cancelled = token.isCancellationRequested;
+                if (cancelled) return undefined;
+
+                const label = `Block ${block.index + 1}/${blocks.length}:`;
+                const candidates = await scanWorkspace(block.text, options, progress, token, label, block.pathHint);
+                if (!candidates) return undefined;
+
+                if (candidates.length === 0) {
+                    // A hinted path that does not exist yet becomes a new file
+                    const newFile = await newFileTarget(block.pathHint);
+                    resolved.push({ block, candidates, newFile, status: newFile ? 'resolved' : 'no-match' });
+                } else if (candidates.some(c => c.match.applied)) {
+                    resolved.push({ block, candidates, status: 'present' });
+                } else if (WorkspaceSearch.hasCloseTie(candidates, tieBreakDelta)) {
+                    resolved.push({ block, candidates, status: 'ambiguous' });
+                } else {
+                    resolved.push({ block, candidates, chosen: WorkspaceSearch.best(candidates), status: 'resolved' });
+                }
             }
+            cancelled = token.isCancellationRequested;
+            return cancelled ? undefined : resolved;
+        }
+    );
+    if (!plans) return [{ status: cancelled ? 'cancelled' : 'failed' }];
 
-            // Otherwise let the user choose
-            const pickItems = candidates.slice(0, 30).map((c) => {
-                const confidence = (c.match.confidence * 100).toFixed(0);
-                const context = c.match.contextMatchLength ?? 0;
-                const line = c.match.startLine + 1;
-
-                return {
-                    label: relPath(c.uri),
-                    description: `Line ${line} — ${confidence}% confidence, ${context} context lines`,
-                    detail: firstLineOfFile(c.fileContent, c.match.startLine),
-                    candidate: c
-                } as vscode.QuickPickItem & { candidate: WorkspaceCandidate };
-            });
+    if (ctx.policy === 'interactive' && !(await reviewBlockPlans(plans))) {
+        return [{ status: 'cancelled' }];
+    }
 
-            const selected = await vscode.window.showQuickPick(pickItems, {
-                placeHolder: `Found ${candidates.length} match${candidates.length > 1 ? 'es' : ''}. Choose where to apply:`,
-                matchOnDescription: true,
-                matchOnDetail: true
-            });
-            if (!selected) return;
+    const outcomes = await applyBlockPlans(plans, options, ctx.source, ctx.review);
+    showBlockSummary(outcomes);
+    return outcomes.map(o => ({
+        status: o.status === 'present' ? 'already-applied' : o.status,
+        uri: o.uri,
+        match: o.uri && o.match && matchInfo({ uri: o.uri, match: o.match }),
+        candidates: o.candidates?.map(matchInfo),
+        block: o.block.index,
+        message: o.message
+    }));
+}
 
-            // Show a modal preview before applying
-            const chosen = (selected as any).candidate as WorkspaceCandidate;
-            const preview = chosen.preview ?? CodePatcher.previewPatch(chosen.fileContent, codeBlock, chosen.matchIndex, options);
+/**
+ * Let the user skip or retarget individual blocks before anything is written.
+ * Resolves to true once the user chooses to apply.
+ */
+async function reviewBlockPlans(plans: BlockPlan[]): Promise<boolean> {
+    type PlanItem = vscode.QuickPickItem & { plan?: BlockPlan };
+
+    while (true) {
+        const ready = plans.filter(p => p.status === 'resolved').length;
+        const items: PlanItem[] = [
+            {
+                label: `$(check-all) Apply ${ready} block${ready === 1 ? '' : 's'}`,
+                description: ready < plans.length ? `${plans.length - ready} will be left out` : undefined
+            },
+            ...plans.map((plan) => ({
+                label: `${statusIcon(plan.status)} Block ${plan.block.index + 1}${plan.block.language ? ` (${plan.block.language})` : ''}`,
+                description: describePlan(plan),
+                detail: firstNonEmptyLine(plan.block.text),
+                plan
+            }))
+        ];
+
+        const picked = await vscode.window.showQuickPick(items, {
+            placeHolder: 'Review the blocks. Select a block to retarget or skip it, or apply.',
+            matchOnDescription: true,
+            matchOnDetail: true,
+            ignoreFocusOut: true
+        });
+        if (!picked) return false;
+        if (!picked.plan) return ready > 0;
+
+        await editBlockPlan(picked.plan);
+    }
+}
 
-            const confirm = await vscode.window.showInformationMessage(
-                `Preview of changes for ${relPath(chosen.uri)} (line ${chosen.match.startLine + 1})`,
-                { modal: true, detail: preview || 'Preview not available' },
-                'Apply',
-                'Cancel'
-            );
+async function editBlockPlan(plan: BlockPlan) {
+    const actions: string[] = [];
+    if (plan.candidates.length > 0) actions.push('Retarget…');
+    if (plan.status === 'skipped') {
+        if (plan.chosen || plan.newFile) actions.push('Include');
+    } else if (plan.status === 'resolved') {
+        actions.push('Skip');
+    }
+    if (plan.candidates.length === 0) actions.push('Show Near Misses…', 'Create New File…');
+
+    const action = await vscode.window.showQuickPick(actions, {
+        placeHolder: `Block ${plan.block.index + 1}: ${describePlan(plan)}`
+    });
+
+    if (action === 'Retarget…') {
+        const chosen = await pickCandidate(plan.candidates, `Choose where to apply block ${plan.block.index + 1}:`);
+        if (chosen) {
+            plan.chosen = chosen;
+            plan.newFile = undefined;
+            plan.status = 'resolved';
+        }
+    } else if (action === 'Show Near Misses…') {
+        const chosen = await pickNearMiss(plan.block.text, getOptions(), plan.block.pathHint);
+        if (chosen) {
+            plan.chosen = chosen;
+            plan.newFile = undefined;
+            plan.status = 'resolved';
+        }
+    } else if (action === 'Create New File…') {
+        const uri = await promptNewFilePath(plan.block.pathHint);
+        if (uri) {
+            plan.newFile = uri;
+            plan.status = 'resolved';
+        }
+    } else if (action === 'Skip') {
+        plan.status = 'skipped';
+    } else if (action === 'Include') {
+        plan.status = 'resolved';
+    }
+}
+
+/**
+ * Write the resolved blocks as one WorkspaceEdit, with every change labelled
+ * by its block. With `confirm` the edit opens in the refactor preview, where
+ * files and single changes can be unticked; those blocks come back skipped.
+ * Either everything that stays ticked is written or nothing is.
+ */
+async function applyBlockPlans(plans: BlockPlan[], options: PatchOptions, source: PatchSource, confirm: boolean): Promise<BlockOutcome[]> {
+    const outcomes = new Map<BlockPlan, BlockOutcome>();
+    const metadata = (block: ResponseBlock, description: string): vscode.WorkspaceEditEntryMetadata => ({
+        needsConfirmation: confirm,
+        label: `Block ${block.index + 1}: ${firstNonEmptyLine(block.text).slice(0, 60)}`,
+        description
+    });
+
+    for (const plan of plans.filter(p => p.status !== 'resolved' || (!p.chosen && !p.newFile))) {
+        const status = plan.status === 'resolved' ? 'skipped' : plan.status;
+        const present = plan.candidates.find(c => c.match.applied);
+        outcomes.set(plan, {
+            block: plan.block,
+            status,
+            uri: present?.uri,
+            match: present?.match,
+            candidates: status === 'ambiguous' ? plan.candidates : undefined
+        });
+    }
+
+    // New files; the edit's createFile makes missing parent folders once it is applied
+    const newFiles: BlockPlan[] = [];
+    for (const plan of plans.filter(p => p.status === 'resolved' && p.newFile)) {
+        const uri = plan.newFile!;
+        if (newFiles.some(p => p.newFile!.toString() === uri.toString())) {
+            outcomes.set(plan, { block: plan.block, status: 'failed', uri, message: 'Another block creates the same file' });
+            continue;
+        }
+        newFiles.push(plan);
+    }
+
+    // Matched blocks, grouped by file and placed against the text that was scanned
+    type Placed = { plan: BlockPlan; match: Match; line: number; moved: boolean };
+    const files: Array<{ document: vscode.TextDocument; before: string; after: string; placed: Placed[] }> = [];
+    const byFile = new Map<string, BlockPlan[]>();
+    for (const plan of plans.filter(p => p.status === 'resolved' && !p.newFile && p.chosen)) {
+        const key = plan.chosen!.uri.toString();
+        byFile.set(key, [...(byFile.get(key) ?? []), plan]);
+    }
 
-            if (confirm === 'Apply') {
-                await openAndApply(chosen, codeBlock, options);
-                vscode.window.showInformationMessage('✓ Patch applied successfully');
+    for (const group of byFile.values()) {
+        let document: vscode.TextDocument;
+        try {
+            document = await vscode.workspace.openTextDocument(group[0].chosen!.uri);
+        } catch (err) {
+            group.forEach(plan => outcomes.set(plan, { block: plan.block, status: 'failed', uri: plan.chosen!.uri, message: String(err) }));
+            continue;
+        }
+        const before = document.getText();
+        const fileOptions = withFileOptions(options, document.uri);
+
+        const located: Array<Omit<Placed, 'line'>> = [];
+        for (const plan of group) {
+            const chosen = plan.chosen!;
+            const fail = (message: string) => outcomes.set(plan, { block: plan.block, status: 'failed', uri: chosen.uri, message });
+            const relocation = CodePatcher.relocateMatch(before, plan.block.text, chosen.match, chosen.fingerprint, fileOptions);
+            const overlapping = relocation && located.find(l => relocation.match.startLine < l.match.endLine && l.match.startLine < relocation.match.endLine);
+            if (!relocation) {
+                fail('Match no longer found');
+            } else if (relocation.changed) {
+                fail('Matched code changed since the scan');
+            } else if (overlapping) {
+                fail(`Overlaps block ${overlapping.plan.block.index + 1} in the same file`);
+            } else {
+                located.push({ plan, match: relocation.match, moved: relocation.moved });
             }
         }
+        if (located.length === 0) continue;
+
+        // Top down, shifting each match by the lines the blocks above added or removed
+        const lineCount = (text: string) => CodePatcher.normalizeLineEndings(text).split('\n').length;
+        const indentStyle = fileOptions.indentStyle ?? CodePatcher.detectIndentStyle(CodePatcher.fileLines(before));
+        const placed: Placed[] = [];
+        let after = before;
+        let offset = 0;
+        for (const l of located.sort((a, b) => a.match.startLine - b.match.startLine)) {
+            const shifted = { ...l.match, startLine: l.match.startLine + offset, endLine: l.match.endLine + offset };
+            const lines = lineCount(after);
+            after = CodePatcher.applyReplacement(after, shifted, l.plan.block.text, { ...fileOptions, indentStyle });
+            offset += lineCount(after) - lines;
+            placed.push({ ...l, line: shifted.startLine + 1 });
+        }
+        files.push({ document, before, after, placed });
+    }
+
+    // The edit is built from the texts read above, so none may have moved on since
+    const fresh = files.filter(f => f.document.getText() === f.before);
+    for (const f of files.filter(f => !fresh.includes(f))) {
+        for (const p of f.placed) {
+            outcomes.set(p.plan, { block: p.plan.block, status: 'failed', uri: f.document.uri, message: 'The file was edited in the meantime' });
+        }
+    }
+
+    const edit = new vscode.WorkspaceEdit();
+    for (const plan of newFiles) {
+        const uri = plan.newFile!;
+        const entry = metadata(plan.block, `${relPath(uri)} (new file)`);
+        edit.createFile(uri, { ignoreIfExists: false }, entry);
+        edit.insert(uri, new vscode.Position(0, 0), CodePatcher.newFileContent(plan.block.text), entry);
+    }
+    for (const f of fresh) {
+        const owner = (change: LineChange) =>
+            f.placed.find(p => change.oldStart <= p.match.endLine && p.match.startLine <= change.oldEnd) ?? f.placed[0];
+        addLineEdits(edit, f.document, f.after, change => {
+            const p = owner(change);
+            return metadata(p.plan.block, `${relPath(f.document.uri)}:${p.line}`);
+        });
+    }
+
+    // False when the refactor preview was discarded (or the edit rejected)
+    const written = edit.size === 0 || await vscode.workspace.applyEdit(edit);
+    const notWritten = (message: string): Pick<BlockOutcome, 'status' | 'message'> => !written
+        ? { status: confirm ? 'cancelled' : 'failed', message: confirm ? 'Discarded in the refactor preview' : message }
+        : { status: 'skipped', message: 'Unticked in the refactor preview' };
+
+    for (const plan of newFiles) {
+        const uri = plan.newFile!;
+        const created = written && await vscode.workspace.fs.stat(uri).then(() => true, () => false);
+        if (created) {
+            await patchHistory?.record(source, uri, { startLine: 0, endLine: 0 }, '', CodePatcher.newFileContent(plan.block.text), true);
+        }
+        outcomes.set(plan, { block: plan.block, uri, ...(created ? { status: 'created' } : notWritten('Could not create the file')) });
+    }
+
+    for (const { document, before, after, placed } of fresh) {
+        // Changes unticked in the preview leave their block unapplied
+        const text = document.getText();
+        const fileOptions = withFileOptions(options, document.uri);
+        const landed = placed.filter(p => written && (text === after ||
+            (text !== before && CodePatcher.patch(text, p.plan.block.text, fileOptions).matches.some(m => m.applied))));
+
+        for (const p of placed) {
+            const applied = landed.includes(p);
+            outcomes.set(p.plan, {
+                block: p.plan.block,
+                uri: document.uri,
+                line: p.line,
+                match: p.match,
+                ...(applied
+                    ? { status: 'applied', message: p.moved ? `moved from line ${p.plan.chosen!.match.startLine + 1}` : undefined }
+                    : notWritten('Edit was rejected'))
+            });
+        }
+
+        if (landed.length > 0 && text !== before) {
+            const range = {
+                startLine: Math.min(...landed.map(p => p.match.startLine)),
+                endLine: Math.max(...landed.map(p => p.match.endLine))
+            };
+            await patchHistory?.record(source, document.uri, range, before, text);
+        }
+    }
+
+    return plans.map(plan => outcomes.get(plan)!);
+}
+
+function showBlockSummary(outcomes: BlockOutcome[]) {
+    const channel = getOutputChannel();
+    channel.appendLine(`[${new Date().toLocaleTimeString()}] Applied multi-block response`);
+    for (const o of outcomes) {
+        const target = o.uri ? ` → ${relPath(o.uri)}${o.line ? `:${o.line}` : ''}` : '';
+        const note = o.message ? ` (${o.message})` : '';
+        channel.appendLine(`  Block ${o.block.index + 1}: ${o.status}${target}${note}`);
+    }
+    channel.appendLine('');
+
+    const created = outcomes.filter(o => o.status === 'created').length;
+    const applied = outcomes.filter(o => o.status === 'applied').length + created;
+    const failed = outcomes.filter(o => o.status === 'failed').length;
+    const parts = [`Applied ${applied} of ${outcomes.length} blocks`];
+    if (created) parts.push(`${created} new file${created === 1 ? '' : 's'}`);
+    const ambiguous = outcomes.filter(o => o.status === 'ambiguous').length;
+    const noMatch = outcomes.filter(o => o.status === 'no-match').length;
+    const skipped = outcomes.filter(o => o.status === 'skipped').length;
+    const cancelled = outcomes.filter(o => o.status === 'cancelled').length;
+    const present = outcomes.filter(o => o.status === 'present').length;
+    if (present) parts.push(`${present} already applied`);
+    if (ambiguous) parts.push(`${ambiguous} ambiguous`);
+    if (noMatch) parts.push(`${noMatch} without match`);
+    if (skipped) parts.push(`${skipped} skipped`);
+    if (cancelled) parts.push(`${cancelled} discarded`);
+    if (failed) parts.push(`${failed} failed`);
+
+    // Not awaited: callers get their results without waiting for the notification to close
+    const show = applied + present === outcomes.length
+        ? vscode.window.showInformationMessage(`✓ ${parts.join(', ')}`, 'Show Details')
+        : vscode.window.showWarningMessage(parts.join(', '), 'Show Details');
+    void show.then((choice) => {
+        if (choice === 'Show Details') channel.show(true);
+    });
+}
+
+/**
+ * One-line per-hunk report for diff input, e.g. "Hunks: #1 exact, #2 offset +3, #3 failed"
+ */
+function summarizeHunks(result: Pick<PatchResult, 'hunks'>): string | undefined {
+    if (!result.hunks) return undefined;
+    const parts = result.hunks.map((h) => {
+        if (!h.success) return `#${h.index + 1} failed`;
+        if (h.applied) return `#${h.index + 1} already applied`;
+        const offset = h.offset ? ` ${h.offset > 0 ? '+' : ''}${h.offset}` : '';
+        return `#${h.index + 1} ${h.method}${offset}`;
+    });
+    return `Hunks: ${parts.join(', ')}`;
+}
+
+function statusIcon(status: BlockStatus): string {
+    switch (status) {
+        case 'resolved': return '$(pass)';
+        case 'ambiguous': return '$(question)';
+        case 'no-match': return '$(error)';
+        case 'present': return '$(check)';
+        case 'skipped': return '$(circle-slash)';
+    }
+}
+
+function describePlan(plan: BlockPlan): string {
+    const target = plan.chosen
+        ? `${relPath(plan.chosen.uri)}:${plan.chosen.match.startLine + 1}`
+        : plan.newFile ? `${relPath(plan.newFile)} (new file)` : '';
+    switch (plan.status) {
+        case 'resolved': return plan.chosen ? `→ ${target} (${(plan.chosen.match.confidence * 100).toFixed(0)}%)` : `→ ${target}`;
+        case 'ambiguous': return `Ambiguous — ${plan.candidates.length} close matches, select to choose`;
+        case 'no-match': return 'No match found';
+        case 'present': return `Already applied in ${relPath(plan.candidates.find(c => c.match.applied)!.uri)}, nothing to do`;
+        case 'skipped': return target ? `Skipped (was ${target})` : 'Skipped';
+    }
+}
+
+function firstNonEmptyLine(text: string): string {
+    return (text.split(/\r\n|\r|\n/).find(l => l.trim()) ?? '').trim().slice(0, 120);
+}
+
+function getOutputChannel(): vscode.OutputChannel {
+    if (!outputChannel) {
+        outputChannel = vscode.window.createOutputChannel('AI Code Patcher');
+    }
+    return outputChannel;
+}
+
+/**
+ * Apply a scanned candidate directly, without the diff editor
+ */
+async function openAndApply(
+    candidate: WorkspaceCandidate,
+    codeBlock: string,
+    options: PatchOptions,
+    ctx: PatchContext
+): Promise<PatchOutcome> {
+    const current = await revalidateCandidate(candidate, codeBlock, options, ctx.policy === 'interactive');
+    if (!current) return { status: 'failed', uri: candidate.uri, message: 'The target changed since the scan' };
+
+    await vscode.window.showTextDocument(current.document);
+    if (!(await applyMatch(current.document, codeBlock, current.match, options, ctx.source))) {
+        return { status: 'failed', uri: candidate.uri, message: 'The edit was rejected' };
+    }
+
+    const { match } = current;
+    vscode.window.showInformationMessage(
+        `✓ Patch applied to ${relPath(candidate.uri)} at line ${match.startLine + 1} (${(match.confidence * 100).toFixed(0)}% confidence)`
     );
+    return appliedOutcome(candidate.uri, match);
 }
 
-async function openAndApply(candidate: WorkspaceCandidate, codeBlock: string, options: PatchOptions) {
-    const doc = await vscode.workspace.openTextDocument(candidate.uri);
-    const editor = await vscode.window.showTextDocument(doc);
-    await applyPatchAtMatch(editor, codeBlock, candidate.matchIndex, options, candidate.match);
+/**
+ * Re-check a candidate against its document right before applying. The file
+ * can change while a quick pick or dialog is open, so the match is looked up
+ * again when the document moved on since the scan. Resolves to undefined
+ * (after telling the user) when the target disappeared or the user declines
+ * to patch code that changed; without `interactive` changed code is refused.
+ */
+async function revalidateCandidate(
+    candidate: WorkspaceCandidate,
+    codeBlock: string,
+    options: PatchOptions,
+    interactive: boolean = true
+): Promise<{ document: vscode.TextDocument; match: Match } | undefined> {
+    const document = await vscode.workspace.openTextDocument(candidate.uri);
+    const text = document.getText();
+    if ((candidate.version === undefined || document.version === candidate.version) && text === candidate.fileContent) {
+        return { document, match: candidate.match };
+    }
+
+    const file = relPath(candidate.uri);
+    const relocation = CodePatcher.relocateMatch(text, codeBlock, candidate.match, candidate.fingerprint, withFileOptions(options, candidate.uri));
+    if (!relocation) {
+        vscode.window.showWarningMessage(`${file} changed since the scan and the block no longer matches it. Nothing was applied.`);
+        return undefined;
+    }
+
+    const line = relocation.match.startLine + 1;
+    if (relocation.changed && !interactive) {
+        vscode.window.showWarningMessage(`The matched code in ${file} changed since the scan. Nothing was applied.`);
+        return undefined;
+    } else if (relocation.changed) {
+        const choice = await vscode.window.showWarningMessage(
+            `The matched code in ${file} changed since the scan. Apply at line ${line} anyway?`,
+            { modal: true },
+            'Apply'
+        );
+        if (choice !== 'Apply') return undefined;
+    } else if (relocation.moved) {
+        vscode.window.showWarningMessage(`${file} changed since the scan; the match moved from line ${candidate.match.startLine + 1} to line ${line}.`);
+    }
+
+    return { document, match: relocation.match };
 }
 
 function relPath(uri: vscode.Uri): string {
     return vscode.workspace.asRelativePath(uri, false);
 }
 
+/**
+ * ", normalized: quotes, fuzzy" when lines only matched after normalising
+ */
+function normalizationNote(match: Match): string {
+    return match.normalizations?.length ? `, normalized: ${match.normalizations.join(', ')}` : '';
+}
+
 function firstLineOfFile(text: string, startLine: number): string {
     const lines = text.split(/\r\n|\r|\n/);
     return (lines[startLine] ?? '').trim().slice(0, 120);
 }
 
-async function applyPatchToEditor(editor: vscode.TextEditor, codeBlock: string) {
-    const document = editor.document;
+async function applyPatchToDocument(document: vscode.TextDocument, codeBlock: string, ctx: PatchContext): Promise<PatchOutcome> {
     const fileContent = document.getText();
 
     const config = vscode.workspace.getConfiguration('aiCodePatcher');
-    const options: PatchOptions = {
-        fuzzyMatch: config.get('fuzzyMatch', true),
-        minConfidence: config.get('minConfidence', 0.6),
-        contextLines: config.get('contextLines', 2)
-    };
+    const options = withFileOptions(getOptions(), document.uri);
 
     const result = CodePatcher.patch(fileContent, codeBlock, options);
 
     if (!result.success) {
         const debugInfo = result.debug ? `\n\nDebug: ${result.debug}` : '';
-        vscode.window.showErrorMessage(`Patch failed: ${result.error}${debugInfo}`);
-        return;
+        const outcome: PatchOutcome = { status: 'no-match', uri: document.uri, message: result.error };
+        if (ctx.policy !== 'interactive') {
+            vscode.window.showErrorMessage(`Patch failed: ${result.error}${debugInfo}`);
+            return outcome;
+        }
+
+        const action = await vscode.window.showErrorMessage(`Patch failed: ${result.error}${debugInfo}`, 'Show Near Misses');
+        if (!action) return outcome;
+
+        const choice = await NearMissView.show(
+            [{ uri: document.uri, text: fileContent, report: NearMissAnalyzer.analyze(fileContent, codeBlock, options) }],
+            getOutputChannel(),
+            `Near misses in ${relPath(document.uri)}`
+        );
+        return choice
+            ? applyCandidate(nearMissCandidate(choice, document.version), codeBlock, options, ctx, ', applied anyway')
+            : outcome;
     }
 
     const matches = result.matches;
 
     if (matches.length === 0) {
         vscode.window.showWarningMessage('No matches found for the code block');
-        return;
+        return { status: 'no-match', uri: document.uri };
+    }
+
+    if (result.status === 'applied') {
+        const message = `Already applied at line ${matches[0].startLine + 1}; nothing to do.`;
+        vscode.window.showInformationMessage(message);
+        return { status: 'already-applied', uri: document.uri, match: matchInfo({ uri: document.uri, match: matches[0] }), message };
+    }
+
+    if (ctx.policy === 'apply-if-unambiguous') {
+        const located = matches.map(match => ({ uri: document.uri, match }));
+        if (WorkspaceSearch.hasCloseTie(located, getWorkspaceSearchConfig().tieBreakDelta)) {
+            return ambiguousOutcome(located);
+        }
     }
 
-    if (matches.length === 1) {
-        const autoApply = config.get('autoApplySingleMatch', false);
+    if (matches.length === 1 || ctx.policy === 'apply-if-unambiguous') {
+        const match = matches[0];
+        const autoApply = matches.length === 1 && config.get('autoApplySingleMatch', false);
+        const contextMatches = match.contextMatchLength || 0;
 
-        if (autoApply) {
-            await applyPatchAtMatch(editor, codeBlock, 0, options, matches[0]);
-            const contextMatches = matches[0].contextMatchLength || 0;
+        if (autoApply || !ctx.review) {
+            if (!(await applyMatch(document, codeBlock, match, options, ctx.source))) {
+                return { status: 'failed', uri: document.uri, message: 'The edit was rejected' };
+            }
             vscode.window.showInformationMessage(
-                `✓ Patch applied at line ${matches[0].startLine + 1} (${(matches[0].confidence * 100).toFixed(0)}% confidence, ${contextMatches} context lines)`
+                `✓ Patch applied at line ${match.startLine + 1} (${(match.confidence * 100).toFixed(0)}% confidence, ${contextMatches} context lines)`
             );
-            return;
+            return appliedOutcome(document.uri, match);
         }
 
-        const preview = CodePatcher.previewPatch(fileContent, codeBlock, 0, options);
-        const contextMatches = matches[0].contextMatchLength || 0;
-        const choice = await vscode.window.showInformationMessage(
-            `Found 1 match at line ${matches[0].startLine + 1} (${(matches[0].confidence * 100).toFixed(0)}% confidence, ${contextMatches} context lines)`,
-            { modal: true, detail: preview || undefined },
-            'Apply',
-            'Cancel'
+        const proposed = CodePatcher.applyReplacement(fileContent, match, codeBlock, options);
+        return previewAndApply(
+            document.uri,
+            fileContent,
+            proposed,
+            `Line ${match.startLine + 1} — ${(match.confidence * 100).toFixed(0)}% confidence, ${contextMatches} context lines${normalizationNote(match)}${result.status === 'partial' ? ', partly applied already' : ''}`,
+            ctx.source,
+            match
         );
-
-        if (choice === 'Apply') {
-            await applyPatchAtMatch(editor, codeBlock, 0, options, matches[0]);
-            vscode.window.showInformationMessage('✓ Patch applied successfully');
-        }
-        return;
     }
 
-    await handleMultipleMatches(editor, codeBlock, matches, options);
+    return handleMultipleMatches(document, codeBlock, matches, options, ctx);
 }
 
 async function handleMultipleMatches(
-    editor: vscode.TextEditor,
+    document: vscode.TextDocument,
     codeBlock: string,
     matches: Match[],
-    options: PatchOptions
-) {
-    const document = editor.document;
+    options: PatchOptions,
+    ctx: PatchContext
+): Promise<PatchOutcome> {
+    const fileContent = document.getText();
+    const version = document.version;
 
     const items: Array<vscode.QuickPickItem & { matchIndex: number }> = matches.map((match, idx) => {
         const lineNum = match.startLine + 1;
@@ -331,7 +1416,7 @@ async function handleMultipleMatches(
 
         return {
             label: `$(file-code) Line ${lineNum}`,
-            description: `${confidence}% confidence, ${contextMatches} context lines`,
+            description: `${confidence}% confidence, ${contextMatches} context lines${normalizationNote(match)}`,
             detail: codePreview,
             matchIndex: idx
         };
@@ -343,69 +1428,184 @@ async function handleMultipleMatches(
         matchOnDetail: true
     });
 
-    if (!selected) return;
+    if (!selected) return { status: 'cancelled' };
 
-    const preview = CodePatcher.previewPatch(
-        document.getText(),
+    // The document may have been edited while the quick pick was open
+    const match = matches[selected.matchIndex];
+    return applyCandidate(
+        { uri: document.uri, fileContent, match, version, fingerprint: CodePatcher.fingerprint(fileContent, match) },
         codeBlock,
-        selected.matchIndex,
-        options
+        options,
+        ctx
     );
+}
 
-    const choice = await vscode.window.showInformationMessage(
-        'Preview of changes:',
-        { modal: true, detail: preview || 'Preview not available' },
-        'Apply',
-        'Cancel'
-    );
+/**
+ * Show the proposed file in the diff editor and write the accepted (possibly
+ * hand-edited) text back to the document.
+ */
+async function previewAndApply(
+    uri: vscode.Uri,
+    originalText: string,
+    proposedText: string,
+    title: string,
+    source: PatchSource,
+    match: Match
+): Promise<PatchOutcome> {
+    const accepted = await patchPreview!.show(uri, originalText, proposedText, `${path.basename(uri.path)}: ${title}`);
+    if (accepted === undefined) return { status: 'cancelled', uri };
+
+    const document = await vscode.workspace.openTextDocument(uri);
+
+    // Keep edits made to the file while the preview was open, unless they touch the patched lines
+    let finalText = accepted;
+    const currentText = document.getText();
+    if (currentText !== originalText) {
+        const split = (text: string) => text.split(/\r\n|\r|\n/);
+        const rebased = LineDiff.rebase(split(originalText), split(accepted), split(currentText));
+        if (!rebased) {
+            const message = `${relPath(uri)} was edited near the patch while the preview was open. Nothing was applied.`;
+            vscode.window.showWarningMessage(message);
+            return { status: 'failed', uri, message };
+        }
+        finalText = rebased.join('\n');
+    }
+
+    if (!(await commitPatch(document, finalText, source, match))) {
+        return { ...failed('Failed to apply edit to document'), uri };
+    }
+    await vscode.window.showTextDocument(document);
+    vscode.window.showInformationMessage('✓ Patch applied successfully');
+    return appliedOutcome(uri, match);
+}
 
-    if (choice === 'Apply') {
-        await applyPatchAtMatch(editor, codeBlock, selected.matchIndex, options, matches[selected.matchIndex]);
-        vscode.window.showInformationMessage('✓ Patch applied successfully');
+/**
+ * Write a patched document and record the change in the patch history
+ */
+async function commitPatch(document: vscode.TextDocument, newText: string, source: PatchSource, match: Match): Promise<boolean> {
+    const before = document.getText();
+    const applied = await replaceDocumentText(document, newText);
+    if (applied) {
+        await patchHistory?.record(source, document.uri, match, before, document.getText());
     }
+    return applied;
 }
 
-async function applyPatchAtMatch(
-    editor: vscode.TextEditor,
+async function applyMatch(
+    document: vscode.TextDocument,
     codeBlock: string,
-    matchIndex: number,
+    match: Match,
     options: PatchOptions,
-    matchInfo?: Match
-) {
-    const document = editor.document;
-    const fileContent = document.getText();
+    source: PatchSource
+): Promise<boolean> {
+    const patchedContent = CodePatcher.applyReplacement(document.getText(), match, codeBlock, withFileOptions(options, document.uri));
+    const success = await commitPatch(document, patchedContent, source, match);
+    if (!success) {
+        vscode.window.showErrorMessage('Failed to apply edit to document');
+    }
+    return success;
+}
 
-    const patchedContent = CodePatcher.applyPatch(
-        fileContent,
-        codeBlock,
-        matchIndex,
-        options
-    );
+/**
+ * Nothing matched: a block naming a file that does not exist yet goes straight
+ * to the new-file preview; otherwise the user may still choose a path for it
+ */
+async function offerNewFile(codeBlock: string, options: PatchOptions, ctx: PatchContext): Promise<PatchOutcome> {
+    const message = 'No matches found in the workspace. Try adding more unique context lines or lowering minConfidence.';
+    let uri = await newFileTarget(ctx.pathHint);
+    if (!uri) {
+        if (ctx.policy !== 'interactive') {
+            vscode.window.showWarningMessage(message);
+            return { status: 'no-match', message };
+        }
 
-    if (!patchedContent) {
-        vscode.window.showErrorMessage('Failed to apply patch');
-        return;
+        const choice = await vscode.window.showWarningMessage(message, 'Show Near Misses', 'Create New File…');
+        if (choice === 'Show Near Misses') {
+            const candidate = await pickNearMiss(codeBlock, options, ctx.pathHint);
+            if (candidate) return applyCandidate(candidate, codeBlock, options, ctx, ', applied anyway');
+        } else if (choice) {
+            uri = await promptNewFilePath(ctx.pathHint);
+        }
+        if (!uri) return { status: 'no-match', message };
     }
 
-    const edit = new vscode.WorkspaceEdit();
-    const fullRange = new vscode.Range(
-        document.positionAt(0),
-        document.positionAt(fileContent.length)
-    );
+    const content = CodePatcher.newFileContent(codeBlock);
+    const accepted = ctx.review ? await patchPreview!.show(uri, '', content, `${relPath(uri)} (new file)`) : content;
+    if (accepted === undefined) return { status: 'cancelled', uri };
 
-    edit.replace(document.uri, fullRange, patchedContent);
+    if (!(await createFileWithText(uri, accepted, ctx.source))) {
+        return { ...failed(`Failed to create ${relPath(uri)}`), uri };
+    }
+    await vscode.window.showTextDocument(uri);
+    vscode.window.showInformationMessage(`✓ Created ${relPath(uri)}`);
+    return { status: 'created', uri };
+}
 
-    const success = await vscode.workspace.applyEdit(edit);
+/**
+ * Workspace location for a hinted path, or undefined when there is no usable
+ * hint or something already exists there. A leading workspace folder name
+ * selects that folder in multi-root workspaces.
+ */
+async function newFileTarget(pathHint?: string): Promise<vscode.Uri | undefined> {
+    const folders = vscode.workspace.workspaceFolders ?? [];
+    const segments = (pathHint ?? '').replace(/\\/g, '/').replace(/^\.?\//, '').split('/').filter(Boolean);
+    if (folders.length === 0 || segments.length === 0 || segments.includes('..') || /^[a-z]:$/i.test(segments[0])) {
+        return undefined;
+    }
 
-    if (!success) {
-        vscode.window.showErrorMessage('Failed to apply edit to document');
-    } else {
-        const fileName = path.basename(document.fileName);
-        const lineInfo = matchInfo ? ` at line ${matchInfo.startLine + 1}` : '';
-        vscode.window.showInformationMessage(`✓ Modified ${fileName}${lineInfo}`);
+    let folder = folders[0];
+    const named = folders.find(f => f.name === segments[0]);
+    if (named && segments.length > 1) {
+        folder = named;
+        segments.shift();
+    }
+
+    const uri = vscode.Uri.joinPath(folder.uri, ...segments);
+    try {
+        await vscode.workspace.fs.stat(uri);
+        return undefined;
+    } catch {
+        return uri;
+    }
+}
+
+async function promptNewFilePath(pathHint?: string): Promise<vscode.Uri | undefined> {
+    const value = await vscode.window.showInputBox({
+        prompt: 'Path of the new file, relative to the workspace folder',
+        value: pathHint,
+        ignoreFocusOut: true,
+        validateInput: (input) => {
+            if (!input.trim()) return 'Enter a file path';
+            if (input.split(/[\\/]/).includes('..')) return 'The file must be inside the workspace';
+            return undefined;
+        }
+    });
+    if (!value) return undefined;
+
+    const uri = await newFileTarget(value.trim());
+    if (!uri) {
+        vscode.window.showErrorMessage(`${value.trim()} already exists or is not a valid workspace path.`);
+    }
+    return uri;
+}
+
+/**
+ * Create a file as one undoable edit and record it in the patch history.
+ * The edit creates missing parent folders itself, so a declined or failed
+ * edit leaves no empty folders behind.
+ */
+async function createFileWithText(uri: vscode.Uri, text: string, source: PatchSource): Promise<boolean> {
+    const edit = new vscode.WorkspaceEdit();
+    edit.createFile(uri, { ignoreIfExists: false });
+    edit.insert(uri, new vscode.Position(0, 0), text);
+    const applied = await vscode.workspace.applyEdit(edit);
+    if (applied) {
+        await patchHistory?.record(source, uri, { startLine: 0, endLine: 0 }, '', text, true);
     }
+    return applied;
 }
 
 export function deactivate() {
+    outputChannel?.dispose();
     console.log('AI Code Patcher extension deactivated');
 }
@@ -0,0 +1,76 @@
+// gitIgnore.ts - .gitignore rules for workspace-relative paths (no vscode dependency)
+
+import { Glob } from './glob';
+
+interface GitIgnoreRule {
+  base: string; // Directory of the .gitignore, relative to the root ("" for the root)
+  regex: RegExp;
+  negate: boolean;
+  dirOnly: boolean;
+}
+
+/**
+ * Immutable set of .gitignore rules. Nested .gitignore files are layered on
+ * with `extend` while walking down, and the last matching rule wins as in git.
+ */
+export class GitIgnore {
+  static readonly EMPTY = new GitIgnore([]);
+
+  private constructor(private readonly rules: GitIgnoreRule[]) {}
+
+  /**
+   * Rules of a .gitignore file located in `base`, added after the current ones
+   */
+  extend(text: string, base: string): GitIgnore {
+    const added = GitIgnore.parse(text, base);
+    return added.length > 0 ? new GitIgnore([...this.rules, ...added]) : this;
+  }
+
+  /**
+   * Is a "/"-separated path (relative to the walk root) ignored?
+   * Paths inside ignored directories are not checked; the walker never enters them.
+   */
+  ignores(relativePath: string, isDirectory: boolean): boolean {
+    let ignored = false;
+    for (const rule of this.rules) {
+      if (rule.dirOnly && !isDirectory) continue;
+      if (rule.base && !relativePath.startsWith(rule.base + '/')) continue;
+
+      const local = rule.base ? relativePath.slice(rule.base.length + 1) : relativePath;
+      if (rule.regex.test(local)) {
+        ignored = !rule.negate;
+      }
+    }
+    return ignored;
+  }
+
+  private static parse(text: string, base: string): GitIgnoreRule[] {
+    const rules: GitIgnoreRule[] = [];
+
+    for (const raw of text.split(/\r\n|\r|\n/)) {
+      let pattern = raw.replace(/(?<!\\)\s+$/, '');
+      if (!pattern || pattern.startsWith('#')) continue;
+
+      const negate = pattern.startsWith('!');
+      if (negate) pattern = pattern.slice(1);
+      pattern = pattern.replace(/^\\([#!])/, '$1');
+
+      const dirOnly = pattern.endsWith('/');
+      pattern = pattern.replace(/\/+$/, '');
+      if (!pattern) continue;
+
+      // A slash anywhere but the end anchors the pattern to the .gitignore's directory
+      const anchored = pattern.includes('/');
+      pattern = pattern.replace(/^\//, '');
+
+      rules.push({
+        base,
+        regex: Glob.toRegExp(anchored ? pattern : `**/${pattern}`),
+        negate,
+        dirOnly
+      });
+    }
+
+    return rules;
+  }
+}
@@ -0,0 +1,69 @@
+// glob.ts - Minimal glob matching for workspace-relative paths (no vscode dependency)
+
+export class Glob {
+  /**
+   * Convert a glob to a regex over "/"-separated relative paths.
+   * Supports **, *, ?, {a,b} alternatives (nestable) and [...] classes.
+   */
+  static toRegExp(glob: string): RegExp {
+    let re = '';
+    let braceDepth = 0;
+
+    for (let i = 0; i < glob.length; i++) {
+      const ch = glob[i];
+
+      if (ch === '*') {
+        if (glob[i + 1] === '*') {
+          const atSegmentStart = i === 0 || glob[i - 1] === '/' || glob[i - 1] === '{' || glob[i - 1] === ',';
+          if (atSegmentStart && glob[i + 2] === '/') {
+            re += '(?:.*/)?'; // "**/" also matches zero directories
+            i += 2;
+          } else {
+            re += '.*';
+            i += 1;
+          }
+        } else {
+          re += '[^/]*';
+        }
+      } else if (ch === '?') {
+        re += '[^/]';
+      } else if (ch === '{') {
+        braceDepth++;
+        re += '(?:';
+      } else if (ch === '}' && braceDepth > 0) {
+        braceDepth--;
+        re += ')';
+      } else if (ch === ',' && braceDepth > 0) {
+        re += '|';
+      } else if (ch === '[') {
+        const close = glob.indexOf(']', i + 1);
+        if (close < 0) {
+          re += '\\[';
+        } else {
+          const body = glob.slice(i + 1, close).replace(/\\/g, '\\\\');
+          re += '[' + (body.startsWith('!') ? '^' + body.slice(1) : body) + ']';
+          i = close;
+        }
+      } else if (ch === '/' && glob.slice(i, i + 3) === '/**' && i + 3 === glob.length) {
+        re += '(?:/.*)?'; // Trailing "/**" matches the directory itself and everything below
+        i += 2;
+      } else {
+        re += ch.replace(/[.+^$()|\\]/g, '\\$&');
+      }
+    }
+
+    return new RegExp(`^${re}$`);
+  }
+
+  /**
+   * Predicate for one or more globs (a path matches if any glob matches)
+   */
+  static matcher(globs: string | string[]): (relativePath: string) => boolean {
+    const list = (Array.isArray(globs) ? globs : [globs]).filter(g => g.trim());
+    const regexes = list.map(g => this.toRegExp(g.trim()));
+    return (relativePath: string) => {
+      const normalized = relativePath.replace(/\\/g, '/');
+      return regexes.some(re => re.test(normalized));
+    };
+  }
+}
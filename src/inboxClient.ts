@@ -0,0 +1,207 @@
+#!/usr/bin/env node
+// inboxClient.ts - Reference client for the patch inbox: pushes one block from a file or stdin
+
+import * as fs from 'fs';
+import * as http from 'http';
+import { randomBytes } from 'crypto';
+import { Duplex } from 'stream';
+import { InboxPayload, InboxServer } from './inboxServer';
+import { WebSocketFrames } from './webSocket';
+
+interface ClientOptions {
+  url: string;
+  token: string;
+  websocket: boolean;
+  block?: string;
+  payload: Omit<InboxPayload, 'text'>;
+}
+
+class UsageError extends Error {}
+
+const USAGE = `Usage: code-patcher-inbox [options] < block
+
+Sends one code block to the AI Code Patcher inbox running in VS Code
+("AI Code Patcher: Start Patch Inbox", then "Copy Patch Inbox Connection Info").
+
+Options:
+  --url <url>          Inbox address (or CODE_PATCHER_INBOX_URL), e.g. http://127.0.0.1:53117
+  --token <token>      Session token (or CODE_PATCHER_INBOX_TOKEN)
+  --block <path>       Read the block from a file instead of stdin
+  --path <hint>        File the block belongs to
+  --format <format>    Declared format: ${InboxServer.FORMATS.join(', ')}
+  --label <text>       Shown with the queued patch
+  --ws                 Send over the WebSocket endpoint instead of HTTP POST
+
+Exit codes: 0 queued, 1 usage or connection error, 2 rejected by the inbox
+`;
+
+function parseArgs(argv: string[]): ClientOptions {
+  const options: ClientOptions = {
+    url: process.env.CODE_PATCHER_INBOX_URL ?? '',
+    token: process.env.CODE_PATCHER_INBOX_TOKEN ?? '',
+    websocket: false,
+    payload: {}
+  };
+
+  const value = (i: number): string => {
+    if (argv[i + 1] === undefined) {
+      throw new UsageError(`Missing value for ${argv[i]}`);
+    }
+    return argv[i + 1];
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    switch (argv[i]) {
+      case '--url': options.url = value(i++); break;
+      case '--token': options.token = value(i++); break;
+      case '--block': options.block = value(i++); break;
+      case '--path': options.payload.pathHint = value(i++); break;
+      case '--format': options.payload.format = value(i++) as InboxPayload['format']; break;
+      case '--label': options.payload.label = value(i++); break;
+      case '--ws': options.websocket = true; break;
+      case '-h':
+      case '--help':
+        throw new UsageError('');
+      default:
+        throw new UsageError(`Unknown option: ${argv[i]}`);
+    }
+  }
+
+  if (!options.url || !options.token) {
+    throw new UsageError('Both the inbox URL and the token are required');
+  }
+  return options;
+}
+
+function readStdin(): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    process.stdin.on('data', (chunk: Buffer) => chunks.push(chunk));
+    process.stdin.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    process.stdin.on('error', reject);
+  });
+}
+
+/**
+ * POST the payload as JSON; resolves to the inbox's answer
+ */
+function sendHttp(options: ClientOptions, payload: InboxPayload): Promise<Record<string, unknown>> {
+  const body = JSON.stringify(payload);
+  return new Promise((resolve, reject) => {
+    const req = http.request(new URL('/patch', options.url), {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${options.token}`,
+        'Content-Type': 'application/json',
+        'Content-Length': Buffer.byteLength(body)
+      }
+    }, (res) => {
+      const chunks: Buffer[] = [];
+      res.on('data', (chunk: Buffer) => chunks.push(chunk));
+      res.on('end', () => {
+        try {
+          resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+        } catch {
+          reject(new Error(`Unexpected answer (HTTP ${res.statusCode})`));
+        }
+      });
+    });
+    req.on('error', reject);
+    req.end(body);
+  });
+}
+
+/**
+ * Open the WebSocket, send the payload as one text message and wait for the answer
+ */
+function sendWebSocket(options: ClientOptions, payload: InboxPayload): Promise<Record<string, unknown>> {
+  const url = new URL('/ws', options.url);
+  url.searchParams.set('token', options.token);
+  const key = randomBytes(16).toString('base64');
+
+  return new Promise((resolve, reject) => {
+    const req = http.request(url, {
+      headers: {
+        'Connection': 'Upgrade',
+        'Upgrade': 'websocket',
+        'Sec-WebSocket-Key': key,
+        'Sec-WebSocket-Version': '13'
+      }
+    });
+    req.on('response', res => reject(new Error(`Handshake refused (HTTP ${res.statusCode})`)));
+    req.on('error', reject);
+    req.on('upgrade', (res: http.IncomingMessage, socket: Duplex, head: Buffer) => {
+      if (res.headers['sec-websocket-accept'] !== WebSocketFrames.acceptKey(key)) {
+        socket.destroy();
+        reject(new Error('Handshake answered with the wrong accept key'));
+        return;
+      }
+
+      let buffered = head;
+      const onData = (chunk: Buffer) => {
+        const { frames, rest } = WebSocketFrames.decode(Buffer.concat([buffered, chunk]), InboxServer.MAX_PAYLOAD);
+        buffered = rest;
+        const answer = frames.find(frame => frame.opcode === WebSocketFrames.TEXT);
+        if (answer) {
+          socket.end(WebSocketFrames.encode(WebSocketFrames.CLOSE, Buffer.from([0x03, 0xe8]), true));
+          resolve(JSON.parse(answer.payload.toString('utf8')));
+        } else if (frames.some(frame => frame.opcode === WebSocketFrames.CLOSE)) {
+          reject(new Error('The inbox closed the connection'));
+        }
+      };
+      socket.on('data', onData);
+      socket.on('error', reject);
+      socket.write(WebSocketFrames.encode(WebSocketFrames.TEXT, JSON.stringify(payload), true));
+      if (head.length > 0) onData(Buffer.alloc(0));
+    });
+    req.end();
+  });
+}
+
+export async function main(argv: string[]): Promise<number> {
+  let options: ClientOptions;
+  try {
+    options = parseArgs(argv);
+  } catch (err) {
+    if (err instanceof UsageError) {
+      if (err.message) console.error(err.message + '\n');
+      console.error(USAGE);
+      return 1;
+    }
+    throw err;
+  }
+
+  let text: string;
+  try {
+    text = options.block ? fs.readFileSync(options.block, 'utf8') : await readStdin();
+  } catch (err) {
+    console.error(`Cannot read block: ${(err as Error).message}`);
+    return 1;
+  }
+
+  let answer: Record<string, unknown>;
+  try {
+    const payload = { ...options.payload, text };
+    answer = options.websocket ? await sendWebSocket(options, payload) : await sendHttp(options, payload);
+  } catch (err) {
+    console.error(`Cannot reach the inbox at ${options.url}: ${(err as Error).message}`);
+    return 1;
+  }
+
+  if (typeof answer.id === 'number') {
+    console.log(`Queued as #${answer.id}`);
+    return 0;
+  }
+  console.error(`Rejected: ${answer.error ?? JSON.stringify(answer)}`);
+  return 2;
+}
+
+if (require.main === module) {
+  main(process.argv.slice(2)).then(
+    code => process.exit(code),
+    (err) => {
+      console.error(err);
+      process.exit(1);
+    }
+  );
+}
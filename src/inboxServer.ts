@@ -0,0 +1,344 @@
+// inboxServer.ts - Localhost endpoint that accepts patch payloads over HTTP or WebSocket (no vscode dependency)
+
+import * as http from 'http';
+import { Duplex } from 'stream';
+import { randomBytes, timingSafeEqual } from 'crypto';
+import { PatchFormat } from './codePatcher';
+import { ResponseParser } from './responseParser';
+import { WebSocketFrames } from './webSocket';
+
+/**
+ * What a client sends: one code block (fenced or not), optionally with the
+ * file it belongs to and the format it is written in
+ */
+export interface InboxPayload {
+  text: string;
+  pathHint?: string;
+  format?: PatchFormat;
+  label?: string; // Where it came from, e.g. the chat's title
+}
+
+/**
+ * An accepted payload, as queued for review
+ */
+export interface InboxItem {
+  id: number;
+  received: number;   // Epoch milliseconds
+  text: string;       // The block without its fence
+  pathHint?: string;  // From the payload, else from the fence
+  format: PatchFormat;
+  language?: string;
+  label?: string;
+  via: 'http' | 'websocket';
+}
+
+export class InboxError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+  }
+}
+
+/**
+ * Ends a WebSocket connection with a close code (RFC 6455 section 7.4.1)
+ */
+class CloseError extends Error {
+  static readonly PROTOCOL_ERROR = 1002;
+  static readonly UNSUPPORTED_DATA = 1003;
+  static readonly TOO_BIG = 1009;
+  static readonly INTERNAL_ERROR = 1011;
+
+  constructor(message: string, readonly code: number) {
+    super(message);
+  }
+}
+
+/**
+ * Listens on the loopback interface only. Every request needs the session's
+ * token, as a Bearer header or a `token` query parameter (browsers cannot set
+ * headers on WebSockets):
+ * - POST /patch   JSON InboxPayload, or the raw block with `path`/`format`/`label` query parameters
+ * - GET  /status  Liveness check
+ * - GET  /ws      WebSocket; every text message is one JSON InboxPayload
+ * Each payload is answered with `{ id }` or `{ error }`.
+ */
+export class InboxServer {
+  static readonly HOST = '127.0.0.1';
+  static readonly MAX_PAYLOAD = 1_000_000;
+  static readonly FORMATS: PatchFormat[] = ['context', 'unified-diff', 'search-replace'];
+
+  readonly token = randomBytes(24).toString('hex');
+  private server: http.Server | undefined;
+  private readonly sockets = new Set<Duplex>(); // Every open connection, HTTP and WebSocket, to end on stop
+  private nextId = 1;
+
+  constructor(private readonly onItem: (item: InboxItem) => void) {}
+
+  get port(): number | undefined {
+    const address = this.server?.address();
+    return address && typeof address === 'object' ? address.port : undefined;
+  }
+
+  get url(): string | undefined {
+    return this.port === undefined ? undefined : `http://${InboxServer.HOST}:${this.port}`;
+  }
+
+  /**
+   * Start listening; port 0 picks a free one. Resolves to the port.
+   */
+  start(port: number): Promise<number> {
+    if (this.server) {
+      return Promise.resolve(this.port!);
+    }
+
+    const server = http.createServer((req, res) => void this.handleRequest(req, res));
+    server.on('upgrade', (req: http.IncomingMessage, socket: Duplex) => this.handleUpgrade(req, socket));
+    // Tracked by hand: Server.closeAllConnections needs Node 18.2, older VS Code builds ship Node 16
+    server.on('connection', (socket: Duplex) => {
+      this.sockets.add(socket);
+      socket.on('close', () => this.sockets.delete(socket));
+    });
+
+    return new Promise<number>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, InboxServer.HOST, () => {
+        server.off('error', reject);
+        this.server = server;
+        resolve(this.port!);
+      });
+    });
+  }
+
+  stop(): Promise<void> {
+    const server = this.server;
+    this.server = undefined;
+    this.sockets.forEach(socket => socket.destroy());
+    this.sockets.clear();
+    if (!server) {
+      return Promise.resolve();
+    }
+
+    return new Promise<void>(resolve => server.close(() => resolve()));
+  }
+
+  /**
+   * Validate a payload and hand it to the queue. A fenced block is unwrapped
+   * (its info string can supply the path hint); several blocks are refused,
+   * since each payload is reviewed as one patch.
+   */
+  accept(payload: InboxPayload, via: InboxItem['via']): InboxItem {
+    const blocks = ResponseParser.splitBlocks(payload.text);
+    if (blocks.length !== 1) {
+      throw new InboxError(blocks.length === 0 ? 'The payload contains no code' : `Send one block per payload (got ${blocks.length})`, 422);
+    }
+
+    const [block] = blocks;
+    if (payload.format && payload.format !== block.format) {
+      throw new InboxError(`Declared format "${payload.format}" but the block reads as "${block.format}"`, 422);
+    }
+
+    const item: InboxItem = {
+      id: this.nextId++,
+      received: Date.now(),
+      text: block.text,
+      pathHint: payload.pathHint ?? block.pathHint,
+      format: block.format,
+      language: block.language,
+      label: payload.label,
+      via
+    };
+    this.onItem(item);
+    return item;
+  }
+
+  /**
+   * Check a decoded JSON payload's shape
+   */
+  static parsePayload(value: unknown): InboxPayload {
+    if (!value || typeof value !== 'object') {
+      throw new InboxError('Expected a JSON object', 400);
+    }
+    const { text, pathHint, format, label } = value as Record<string, unknown>;
+    if (typeof text !== 'string' || !text.trim()) {
+      throw new InboxError('"text" must be a non-empty string', 400);
+    }
+    if (pathHint !== undefined && typeof pathHint !== 'string') {
+      throw new InboxError('"pathHint" must be a string', 400);
+    }
+    if (format !== undefined && !this.FORMATS.includes(format as PatchFormat)) {
+      throw new InboxError(`"format" must be one of ${this.FORMATS.join(', ')}`, 400);
+    }
+    if (label !== undefined && typeof label !== 'string') {
+      throw new InboxError('"label" must be a string', 400);
+    }
+    return { text, pathHint: pathHint || undefined, format: format as PatchFormat | undefined, label: label || undefined };
+  }
+
+  private async handleRequest(req: http.IncomingMessage, res: http.ServerResponse) {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const send = (status: number, body: object) => {
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(body));
+    };
+
+    // Pages may post with fetch(); the token, not the origin, is the credential
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204);
+      res.end();
+      return;
+    }
+
+    try {
+      this.checkAccess(req, url);
+
+      if (req.method === 'GET' && url.pathname === '/status') {
+        send(200, { ok: true });
+      } else if (req.method === 'POST' && url.pathname === '/patch') {
+        const body = await InboxServer.readBody(req);
+        const payload = (req.headers['content-type'] ?? '').includes('application/json')
+          ? InboxServer.parsePayload(InboxServer.parseJson(body))
+          : InboxServer.parsePayload({
+            text: body,
+            pathHint: url.searchParams.get('path') ?? undefined,
+            format: url.searchParams.get('format') ?? undefined,
+            label: url.searchParams.get('label') ?? undefined
+          });
+        send(202, { id: this.accept(payload, 'http').id });
+      } else {
+        throw new InboxError(`No route for ${req.method} ${url.pathname}`, 404);
+      }
+    } catch (err) {
+      send(err instanceof InboxError ? err.status : 500, { error: (err as Error).message });
+    }
+  }
+
+  private handleUpgrade(req: http.IncomingMessage, socket: Duplex) {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const key = req.headers['sec-websocket-key'];
+
+    try {
+      this.checkAccess(req, url);
+      if (url.pathname !== '/ws' || typeof key !== 'string' || req.headers.upgrade?.toLowerCase() !== 'websocket') {
+        throw new InboxError('Expected a WebSocket handshake on /ws', 400);
+      }
+    } catch (err) {
+      const status = err instanceof InboxError ? err.status : 400;
+      socket.end(`HTTP/1.1 ${status} ${http.STATUS_CODES[status]}\r\nConnection: close\r\n\r\n`);
+      return;
+    }
+
+    socket.write([
+      'HTTP/1.1 101 Switching Protocols',
+      'Upgrade: websocket',
+      'Connection: Upgrade',
+      `Sec-WebSocket-Accept: ${WebSocketFrames.acceptKey(key)}`,
+      '',
+      ''
+    ].join('\r\n'));
+    socket.on('error', () => socket.destroy());
+
+    let buffered: Buffer = Buffer.alloc(0);
+    let message: Buffer[] | undefined; // Fragments of the text message being received
+    socket.on('data', (chunk: Buffer) => {
+      try {
+        const { frames, rest } = WebSocketFrames.decode(Buffer.concat([buffered, chunk]), InboxServer.MAX_PAYLOAD);
+        buffered = rest;
+
+        for (const frame of frames) {
+          if (!frame.masked) {
+            throw new CloseError('Client frames must be masked', CloseError.PROTOCOL_ERROR);
+          }
+          if (frame.opcode === WebSocketFrames.PING) {
+            socket.write(WebSocketFrames.encode(WebSocketFrames.PONG, frame.payload));
+          } else if (frame.opcode === WebSocketFrames.CLOSE) {
+            socket.end(WebSocketFrames.encode(WebSocketFrames.CLOSE, frame.payload.subarray(0, 2)));
+            return;
+          } else if (frame.opcode === WebSocketFrames.PONG) {
+            // Unsolicited pongs need no answer
+          } else if (frame.opcode === WebSocketFrames.TEXT || frame.opcode === WebSocketFrames.CONTINUATION) {
+            // A text frame starts a message, continuations extend it
+            if ((frame.opcode === WebSocketFrames.TEXT) === !!message) {
+              throw new CloseError('Unexpected frame order', CloseError.PROTOCOL_ERROR);
+            }
+            message = [...(message ?? []), frame.payload];
+            if (message.reduce((size, part) => size + part.length, 0) > InboxServer.MAX_PAYLOAD) {
+              throw new CloseError('Message too large', CloseError.TOO_BIG);
+            }
+            if (frame.fin) {
+              const text = Buffer.concat(message).toString('utf8');
+              message = undefined;
+              socket.write(WebSocketFrames.encode(WebSocketFrames.TEXT, JSON.stringify(this.reply(text))));
+            }
+          } else if (frame.opcode < WebSocketFrames.CLOSE) {
+            throw new CloseError('Only text messages are accepted', CloseError.UNSUPPORTED_DATA);
+          } else {
+            throw new CloseError(`Unexpected frame (opcode ${frame.opcode})`, CloseError.PROTOCOL_ERROR);
+          }
+        }
+      } catch (err) {
+        const code = err instanceof CloseError ? err.code
+          : err instanceof RangeError ? CloseError.TOO_BIG
+            : CloseError.INTERNAL_ERROR;
+        const close = Buffer.alloc(2);
+        close.writeUInt16BE(code);
+        socket.end(WebSocketFrames.encode(WebSocketFrames.CLOSE, close));
+      }
+    });
+  }
+
+  private reply(text: string): { id: number } | { error: string } {
+    try {
+      return { id: this.accept(InboxServer.parsePayload(InboxServer.parseJson(text)), 'websocket').id };
+    } catch (err) {
+      return { error: (err as Error).message };
+    }
+  }
+
+  /**
+   * Loopback host names only (a DNS-rebound page reaches us under its own
+   * name), and the session token
+   */
+  private checkAccess(req: http.IncomingMessage, url: URL) {
+    const host = (req.headers.host ?? '').replace(/:\d+$/, '');
+    if (!['127.0.0.1', 'localhost', '[::1]'].includes(host)) {
+      throw new InboxError('Unexpected Host header', 403);
+    }
+
+    const bearer = req.headers.authorization?.match(/^Bearer\s+(\S+)$/i)?.[1];
+    const given = Buffer.from(bearer ?? url.searchParams.get('token') ?? '');
+    const expected = Buffer.from(this.token);
+    if (given.length !== expected.length || !timingSafeEqual(given, expected)) {
+      throw new InboxError('Missing or wrong token', 401);
+    }
+  }
+
+  private static parseJson(text: string): unknown {
+    try {
+      return JSON.parse(text);
+    } catch {
+      throw new InboxError('Body is not valid JSON', 400);
+    }
+  }
+
+  private static readBody(req: http.IncomingMessage): Promise<string> {
+    return new Promise<string>((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      let size = 0;
+      req.on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > this.MAX_PAYLOAD) {
+          // Drain the rest so the error response can still be sent
+          req.removeAllListeners('data');
+          req.resume();
+          reject(new InboxError(`Payload larger than ${this.MAX_PAYLOAD} bytes`, 413));
+          return;
+        }
+        chunks.push(chunk);
+      });
+      req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+      req.on('error', reject);
+    });
+  }
+}
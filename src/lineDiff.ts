@@ -0,0 +1,232 @@
+// lineDiff.ts - Line-level diff (Myers) and unified diff output
+
+export interface DiffOp {
+  type: 'equal' | 'delete' | 'insert';
+  oldIndex: number; // Position in the old lines (for inserts: where they go)
+  newIndex: number; // Position in the new lines (for deletes: where they were)
+  line: string;
+}
+
+export interface LineChange {
+  oldStart: number; // Replaced range in the old lines (end exclusive)
+  oldEnd: number;
+  lines: string[];  // Lines that take its place
+}
+
+export class LineDiff {
+  /**
+   * Above this many differences, fall back to "replace the middle" instead of
+   * computing a minimal script
+   */
+  static readonly MAX_EDIT_DISTANCE = 2000;
+
+  /**
+   * Shortest edit script turning `oldLines` into `newLines`
+   */
+  static diff(oldLines: string[], newLines: string[]): DiffOp[] {
+    // Common prefix/suffix never need the O(ND) search
+    let prefix = 0;
+    while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] === newLines[prefix]) {
+      prefix++;
+    }
+    let suffix = 0;
+    while (
+      suffix < oldLines.length - prefix &&
+      suffix < newLines.length - prefix &&
+      oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+    ) {
+      suffix++;
+    }
+
+    const ops: DiffOp[] = [];
+    for (let i = 0; i < prefix; i++) {
+      ops.push({ type: 'equal', oldIndex: i, newIndex: i, line: oldLines[i] });
+    }
+
+    const a = oldLines.slice(prefix, oldLines.length - suffix);
+    const b = newLines.slice(prefix, newLines.length - suffix);
+    for (const op of this.myers(a, b)) {
+      ops.push({ ...op, oldIndex: op.oldIndex + prefix, newIndex: op.newIndex + prefix });
+    }
+
+    for (let i = suffix; i > 0; i--) {
+      ops.push({
+        type: 'equal',
+        oldIndex: oldLines.length - i,
+        newIndex: newLines.length - i,
+        line: oldLines[oldLines.length - i]
+      });
+    }
+
+    return ops;
+  }
+
+  /**
+   * Collapse an edit script into the old line ranges that actually change
+   */
+  static changes(oldLines: string[], newLines: string[]): LineChange[] {
+    const changes: LineChange[] = [];
+    let current: LineChange | undefined;
+
+    for (const op of this.diff(oldLines, newLines)) {
+      if (op.type === 'equal') {
+        current = undefined;
+        continue;
+      }
+      if (!current) {
+        current = { oldStart: op.oldIndex, oldEnd: op.oldIndex, lines: [] };
+        changes.push(current);
+      }
+      if (op.type === 'delete') {
+        current.oldEnd = op.oldIndex + 1;
+      } else {
+        current.lines.push(op.line);
+      }
+    }
+
+    return changes;
+  }
+
+  /**
+   * Carry the changes from `base` to `ours` over onto `theirs`, another edit of
+   * `base`. Undefined when both sides touch the same (or adjacent) lines.
+   */
+  static rebase(base: string[], ours: string[], theirs: string[]): string[] | undefined {
+    const mine = this.changes(base, ours);
+    const other = this.changes(base, theirs);
+
+    for (const a of mine) {
+      if (other.some(b => a.oldStart <= b.oldEnd && b.oldStart <= a.oldEnd)) {
+        return undefined;
+      }
+    }
+
+    // Apply bottom-up so earlier line numbers stay valid
+    const result = [...theirs];
+    for (const a of [...mine].reverse()) {
+      const shift = other
+        .filter(b => b.oldEnd < a.oldStart)
+        .reduce((sum, b) => sum + b.lines.length - (b.oldEnd - b.oldStart), 0);
+      result.splice(a.oldStart + shift, a.oldEnd - a.oldStart, ...a.lines);
+    }
+    return result;
+  }
+
+  /**
+   * Render a unified diff between two texts ("" when they are identical)
+   */
+  static unified(oldText: string, newText: string, oldPath: string, newPath: string = oldPath, context: number = 3): string {
+    const ops = this.diff(oldText.split('\n'), newText.split('\n'));
+    const changed = ops.map((op, i) => (op.type === 'equal' ? -1 : i)).filter(i => i >= 0);
+    if (changed.length === 0) {
+      return '';
+    }
+
+    const out = [`--- a/${oldPath}`, `+++ b/${newPath}`];
+
+    // Group changes whose context windows touch into one hunk
+    let groupStart = 0;
+    while (groupStart < changed.length) {
+      let groupEnd = groupStart;
+      while (groupEnd + 1 < changed.length && changed[groupEnd + 1] - changed[groupEnd] <= context * 2) {
+        groupEnd++;
+      }
+
+      const from = Math.max(0, changed[groupStart] - context);
+      const to = Math.min(ops.length, changed[groupEnd] + context + 1);
+      const slice = ops.slice(from, to);
+
+      const oldCount = slice.filter(op => op.type !== 'insert').length;
+      const newCount = slice.filter(op => op.type !== 'delete').length;
+      const oldStart = oldCount === 0 ? slice[0].oldIndex : slice[0].oldIndex + 1;
+      const newStart = newCount === 0 ? slice[0].newIndex : slice[0].newIndex + 1;
+
+      out.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`);
+      for (const op of slice) {
+        out.push((op.type === 'equal' ? ' ' : op.type === 'delete' ? '-' : '+') + op.line);
+      }
+
+      groupStart = groupEnd + 1;
+    }
+
+    return out.join('\n') + '\n';
+  }
+
+  /**
+   * Myers O(ND) diff with backtracking over the per-step frontier
+   */
+  private static myers(a: string[], b: string[]): DiffOp[] {
+    const n = a.length;
+    const m = b.length;
+    const max = n + m;
+
+    if (n === 0 || m === 0 || max === 0) {
+      return this.replaceAll(a, b);
+    }
+
+    const offset = max;
+    const v = new Int32Array(2 * max + 2);
+    const trace: Int32Array[] = [];
+    let found = false;
+
+    for (let d = 0; d <= Math.min(max, this.MAX_EDIT_DISTANCE) && !found; d++) {
+      trace.push(v.slice(offset - d, offset + d + 1));
+      for (let k = -d; k <= d; k += 2) {
+        let x = (k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]))
+          ? v[offset + k + 1]
+          : v[offset + k - 1] + 1;
+        let y = x - k;
+        while (x < n && y < m && a[x] === b[y]) {
+          x++;
+          y++;
+        }
+        v[offset + k] = x;
+        if (x >= n && y >= m) {
+          found = true;
+          break;
+        }
+      }
+    }
+
+    if (!found) {
+      return this.replaceAll(a, b);
+    }
+
+    // Walk the trace backwards to recover the edit script
+    const ops: DiffOp[] = [];
+    let x = n;
+    let y = m;
+    for (let d = trace.length - 1; d >= 0; d--) {
+      const frontier = trace[d]; // Values of v before step d, indexed k + d
+      const at = (k: number) => frontier[k + d];
+      const k = x - y;
+      const prevK = (k === -d || (k !== d && at(k - 1) < at(k + 1))) ? k + 1 : k - 1;
+      const prevX = d === 0 ? 0 : at(prevK);
+      const prevY = prevX - prevK;
+
+      while (x > prevX && y > prevY) {
+        x--;
+        y--;
+        ops.push({ type: 'equal', oldIndex: x, newIndex: y, line: a[x] });
+      }
+      if (d > 0) {
+        if (x === prevX) {
+          y--;
+          ops.push({ type: 'insert', oldIndex: x, newIndex: y, line: b[y] });
+        } else {
+          x--;
+          ops.push({ type: 'delete', oldIndex: x, newIndex: y, line: a[x] });
+        }
+      }
+    }
+
+    return ops.reverse();
+  }
+
+  private static replaceAll(a: string[], b: string[]): DiffOp[] {
+    return [
+      ...a.map((line, i) => ({ type: 'delete' as const, oldIndex: i, newIndex: 0, line })),
+      ...b.map((line, i) => ({ type: 'insert' as const, oldIndex: a.length, newIndex: i, line }))
+    ];
+  }
+}
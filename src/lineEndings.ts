@@ -0,0 +1,98 @@
+// lineEndings.ts - Line endings, byte order mark and final newline of a file's text (no vscode dependency)
+import { LineDiff } from './lineDiff';
+
+export type Eol = '\n' | '\r\n' | '\r';
+
+export interface TextLayout {
+  eol: Eol;              // For new lines: the most common ending, the first one on a tie, '\n' without any
+  bom: boolean;          // Starts with U+FEFF
+  finalNewline: boolean;
+  mixed: boolean;        // More than one kind of line ending
+}
+
+/**
+ * Text split into lines, each with the ending that follows it
+ */
+export interface SplitText {
+  bom: boolean;
+  lines: string[];
+  endings: string[]; // endings[i] follows lines[i]; '' for the last line
+}
+
+/**
+ * Patching works on lines; these keep everything between the lines as it was.
+ * Lines that are not changed keep their own endings, also in files with mixed
+ * endings; changed and added lines get the file's dominant ending.
+ */
+export class LineEndings {
+  static readonly BOM = '\uFEFF';
+
+  static detect(text: string): TextLayout {
+    const { bom, lines, endings } = this.split(text);
+    const counts = new Map<Eol, number>();
+    for (const ending of endings) {
+      if (ending) counts.set(ending as Eol, (counts.get(ending as Eol) ?? 0) + 1);
+    }
+
+    // Map iteration follows first occurrence, so ties go to the ending seen first
+    let eol: Eol = '\n';
+    let most = 0;
+    for (const [ending, count] of counts) {
+      if (count > most) {
+        eol = ending;
+        most = count;
+      }
+    }
+    return { eol, bom, finalNewline: lines.length > 1 && lines[lines.length - 1] === '', mixed: counts.size > 1 };
+  }
+
+  static split(text: string): SplitText {
+    const bom = text.startsWith(this.BOM);
+    const body = bom ? text.slice(1) : text;
+    const lines: string[] = [];
+    const endings: string[] = [];
+
+    const breaks = /\r\n|\r|\n/g;
+    let start = 0;
+    for (let m = breaks.exec(body); m; m = breaks.exec(body)) {
+      lines.push(body.slice(start, m.index));
+      endings.push(m[0]);
+      start = m.index + m[0].length;
+    }
+    lines.push(body.slice(start));
+    endings.push('');
+    return { bom, lines, endings };
+  }
+
+  static join(split: SplitText): string {
+    return (split.bom ? this.BOM : '') + split.lines.map((line, i) => line + split.endings[i]).join('');
+  }
+
+  /**
+   * Replace `count` lines at `start`, as Array.splice does. New lines that
+   * equal a replaced one keep its ending, others get `eol`; the last line
+   * of the file stays without an ending if it had none.
+   */
+  static splice(split: SplitText, eol: Eol, start: number, count: number, newLines: string[]): SplitText {
+    const lines = [...split.lines];
+    const endings = [...split.endings];
+    const appending = start >= lines.length;
+    if (appending && start > 0) endings[start - 1] = eol;
+
+    const newEndings = newLines.map(() => eol as string);
+    for (const op of LineDiff.diff(lines.slice(start, start + count), newLines)) {
+      if (op.type === 'equal' && endings[start + op.oldIndex]) newEndings[op.newIndex] = endings[start + op.oldIndex];
+    }
+    const atEnd = appending || start + count === lines.length;
+    if (atEnd && newLines.length > 0) newEndings[newLines.length - 1] = '';
+
+    lines.splice(start, count, ...newLines);
+    endings.splice(start, count, ...newEndings);
+
+    // Removing the file's last lines leaves the line above last
+    if (atEnd && newLines.length === 0 && start > 0) {
+      endings[start - 1] = '';
+    }
+    return { bom: split.bom, lines, endings };
+  }
+}
@@ -0,0 +1,179 @@
+// lineNormalizer.ts - Language-aware line normalisation before comparing lines (no vscode dependency)
+
+import * as path from 'path';
+
+/**
+ * One normalisation applied to both sides of a line comparison. Steps
+ * receive trimmed lines and run in pipeline order.
+ */
+export interface NormalizationStep {
+  name: string;
+  apply(line: string): string;
+}
+
+export class LineNormalizer {
+  /**
+   * Built-in steps, referenced by name from profiles and settings
+   */
+  static readonly STEPS: Record<string, NormalizationStep> = {
+    // Comments: trailing comments are dropped, comment-only lines compare without case and spacing
+    comments: { name: 'comments', apply: line => LineNormalizer.stripComment(line, '//', /^(\/\*|\*(?=\s|\/|$))/) },
+    hashComments: { name: 'hashComments', apply: line => LineNormalizer.stripComment(line, '#') },
+    dashComments: { name: 'dashComments', apply: line => LineNormalizer.stripComment(line, '--') },
+    // Collapsed runs of whitespace, and none around brackets and separators; string literals stay as they are
+    whitespace: {
+      name: 'whitespace',
+      apply: line => LineNormalizer.mapCode(line, code => code.replace(/\s+/g, ' ').replace(/ ?([()[\]{},;]) ?/g, '$1'))
+    },
+    quotes: { name: 'quotes', apply: line => line.replace(/'/g, '"') },
+    semicolons: { name: 'semicolons', apply: line => line.replace(/;+$/, '') },
+    trailingCommas: { name: 'trailingCommas', apply: line => line.replace(/,(\s*[)\]}])/g, '$1').replace(/,$/, '') }
+  };
+
+  /**
+   * Step names per language family
+   */
+  static readonly PROFILES: Record<string, string[]> = {
+    none: [],
+    plain: ['whitespace'],
+    javascript: ['comments', 'whitespace', 'quotes', 'semicolons', 'trailingCommas'],
+    c: ['comments', 'whitespace', 'trailingCommas'],
+    python: ['hashComments', 'whitespace', 'quotes', 'trailingCommas'],
+    ruby: ['hashComments', 'whitespace', 'quotes', 'trailingCommas'],
+    shell: ['hashComments', 'whitespace'],
+    sql: ['dashComments', 'whitespace', 'trailingCommas'],
+    markup: ['whitespace', 'quotes']
+  };
+
+  /**
+   * VS Code language ids by family; any other language uses the "plain"
+   * profile, and no language at all the "none" profile
+   */
+  static readonly LANGUAGE_FAMILIES: Record<string, string> = {
+    javascript: 'javascript', javascriptreact: 'javascript', typescript: 'javascript', typescriptreact: 'javascript',
+    vue: 'javascript', svelte: 'javascript',
+    c: 'c', cpp: 'c', csharp: 'c', java: 'c', go: 'c', rust: 'c', kotlin: 'c', swift: 'c', scala: 'c', dart: 'c', php: 'c',
+    python: 'python',
+    ruby: 'ruby',
+    shellscript: 'shell', yaml: 'shell', dockerfile: 'shell', makefile: 'shell', perl: 'shell', r: 'shell',
+    sql: 'sql', lua: 'sql', haskell: 'sql',
+    html: 'markup', xml: 'markup', css: 'markup', scss: 'markup', less: 'markup'
+  };
+
+  /**
+   * Language ids for file extensions, for files read from disk
+   */
+  static readonly EXTENSION_LANGUAGES: Record<string, string> = {
+    '.js': 'javascript', '.mjs': 'javascript', '.cjs': 'javascript', '.jsx': 'javascriptreact',
+    '.ts': 'typescript', '.mts': 'typescript', '.cts': 'typescript', '.tsx': 'typescriptreact',
+    '.vue': 'vue', '.svelte': 'svelte',
+    '.c': 'c', '.h': 'c', '.cpp': 'cpp', '.cc': 'cpp', '.cxx': 'cpp', '.hpp': 'cpp', '.hh': 'cpp',
+    '.cs': 'csharp', '.java': 'java', '.go': 'go', '.rs': 'rust', '.kt': 'kotlin', '.kts': 'kotlin',
+    '.swift': 'swift', '.scala': 'scala', '.dart': 'dart', '.php': 'php',
+    '.py': 'python', '.pyi': 'python', '.rb': 'ruby',
+    '.sh': 'shellscript', '.bash': 'shellscript', '.zsh': 'shellscript', '.yml': 'yaml', '.yaml': 'yaml',
+    '.pl': 'perl', '.r': 'r', '.sql': 'sql', '.lua': 'lua', '.hs': 'haskell',
+    '.html': 'html', '.htm': 'html', '.xml': 'xml', '.css': 'css', '.scss': 'scss', '.less': 'less'
+  };
+
+  /**
+   * The pipeline for a comparison: explicit steps when given (unknown names
+   * are ignored), otherwise the profile of the language's family
+   */
+  static pipeline(steps?: Array<string | NormalizationStep>, languageId?: string): NormalizationStep[] {
+    const names = steps ?? this.PROFILES[this.familyOf(languageId)];
+    return names
+      .map(step => typeof step === 'string' ? this.STEPS[step] : step)
+      .filter((step): step is NormalizationStep => !!step);
+  }
+
+  static familyOf(languageId?: string): string {
+    if (!languageId) return 'none';
+    return this.LANGUAGE_FAMILIES[languageId] ?? 'plain';
+  }
+
+  static languageForPath(file: string): string | undefined {
+    return this.EXTENSION_LANGUAGES[path.extname(file).toLowerCase()];
+  }
+
+  /**
+   * Trim and run every step
+   */
+  static normalize(line: string, pipeline: NormalizationStep[]): string {
+    return pipeline.reduce((text, step) => step.apply(text), line.trim());
+  }
+
+  /**
+   * Compare two lines step by step, stopping once they are equal. `fired`
+   * names the steps that changed either line on the way.
+   */
+  static compare(line1: string, line2: string, pipeline: NormalizationStep[]): { equal: boolean; fired: string[]; normalized: [string, string] } {
+    let a = line1.trim();
+    let b = line2.trim();
+    const fired: string[] = [];
+
+    for (const step of pipeline) {
+      if (a === b) break;
+      const [nextA, nextB] = [step.apply(a), step.apply(b)];
+      if (nextA !== a || nextB !== b) fired.push(step.name);
+      [a, b] = [nextA, nextB];
+    }
+
+    return { equal: a === b, fired, normalized: [a, b] };
+  }
+
+  /**
+   * Cut a line comment that is not inside a string literal and follows
+   * whitespace ("${#list}" is not a comment). A comment-only line keeps its
+   * text, lower-cased and with spacing collapsed: erasing it would make every
+   * comment line equal and anchor blocks to the wrong place.
+   */
+  private static stripComment(line: string, marker: string, blockStart?: RegExp): string {
+    const block = blockStart && line.match(blockStart);
+    if (block) return this.commentText(block[1], line.slice(block[1].length));
+
+    let quote = '';
+    for (let i = 0; i < line.length; i++) {
+      const ch = line[i];
+      if (quote) {
+        if (ch === '\\') i++;
+        else if (ch === quote) quote = '';
+      } else if (ch === '"' || ch === '\'' || ch === '`') {
+        quote = ch;
+      } else if (line.startsWith(marker, i) && (i === 0 || /\s/.test(line[i - 1]))) {
+        return line.slice(0, i).trimEnd() || this.commentText(marker, line.slice(i + marker.length));
+      }
+    }
+    return line;
+  }
+
+  /**
+   * Apply `fn` to the parts of a line outside string literals. An unclosed
+   * quote runs to the end of the line.
+   */
+  private static mapCode(line: string, fn: (code: string) => string): string {
+    let result = '';
+    let start = 0;
+    let quote = '';
+    for (let i = 0; i < line.length; i++) {
+      const ch = line[i];
+      if (quote) {
+        if (ch === '\\') i++;
+        else if (ch === quote) {
+          result += line.slice(start, i + 1);
+          start = i + 1;
+          quote = '';
+        }
+      } else if (ch === '"' || ch === '\'' || ch === '`') {
+        result += fn(line.slice(start, i));
+        start = i;
+        quote = ch;
+      }
+    }
+    return result + (quote ? line.slice(start) : fn(line.slice(start)));
+  }
+
+  private static commentText(marker: string, text: string): string {
+    return `${marker} ${text.replace(/\s+/g, ' ').trim().toLowerCase()}`.trimEnd();
+  }
+}
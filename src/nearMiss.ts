@@ -0,0 +1,233 @@
+// nearMiss.ts - Explain a failed match: the closest regions of a file and what rejected them (no vscode dependency)
+
+import { CodePatcher, LineMatcher, Match, PatchFormat, PatchOptions } from './codePatcher';
+import { SearchReplace } from './searchReplace';
+import { UnifiedDiff } from './unifiedDiff';
+
+/**
+ * Why the matcher did not accept a region:
+ * - threshold: its confidence is below minConfidence
+ * - window-size: it is shorter than the smallest window the matcher tries
+ * - context: the lines at its edges do not match the block's first/last lines
+ */
+export type NearMissReason = 'threshold' | 'window-size' | 'context';
+
+export interface NearMissLine {
+  kind: 'matched' | 'diverged' | 'extra'; // Diverged: block line not in the file; extra: file line not in the block
+  block?: string;
+  file?: string;
+  fileLine?: number;
+}
+
+export interface NearMiss {
+  startLine: number;
+  endLine: number;       // Exclusive
+  score: number;         // Confidence the matcher gives the region
+  matchedLines: number;  // Block lines found in the region, in order
+  reasons: NearMissReason[];
+  lines: NearMissLine[];
+  match?: Match;         // Replaces the region when applied anyway; absent when that would lose code
+}
+
+export interface NearMissReport {
+  format: PatchFormat;
+  searched: string[];    // The lines that were looked for
+  minConfidence: number;
+  windowFloor: number;   // Smallest window (in lines) the context matcher tries
+  nearMisses: NearMiss[]; // Closest first
+  note?: string;
+}
+
+export class NearMissAnalyzer {
+  static readonly MAX_NEAR_MISSES = 3;
+  private static readonly MAX_DIAGONALS = 12;
+
+  /**
+   * The regions of a file that come closest to matching a block, with a
+   * line-by-line comparison and the checks that rejected each of them
+   */
+  static analyze(fileContent: string, codeBlock: string, options: PatchOptions = {}): NearMissReport {
+    const fileLines = CodePatcher.fileLines(fileContent);
+    const block = CodePatcher.normalizeLineEndings(codeBlock.trim());
+    const format = CodePatcher.detectFormat(block);
+    const style = options.indentStyle ?? CodePatcher.detectIndentStyle(fileLines);
+
+    let searched: string[];
+    let replacementAt: ((start: number) => string[]) | undefined;
+    let note: string | undefined;
+
+    if (format === 'search-replace') {
+      const pairs = SearchReplace.parse(block);
+      searched = this.trimBlankEdges(pairs[0]?.search ?? []);
+      if (pairs.length === 1) {
+        replacementAt = start => CodePatcher.searchReplacement(pairs[0].replace, searched[0], fileLines[start], style);
+      } else {
+        note = `Only the first of ${pairs.length} SEARCH/REPLACE pairs was analysed`;
+      }
+    } else if (format === 'unified-diff') {
+      const file = UnifiedDiff.parse(block)[0];
+      const result = file ? CodePatcher.applyFileDiff(fileContent, file, options) : undefined;
+      const index = result?.hunks?.find(h => !h.success)?.index ?? 0;
+      const hunk = file?.hunks[index];
+      searched = hunk ? UnifiedDiff.oldSide(hunk) : [];
+      if (hunk && file.hunks.length === 1) {
+        replacementAt = () => UnifiedDiff.newSide(hunk);
+      } else if (hunk) {
+        note = `Showing hunk ${index + 1} of ${file.hunks.length} (${hunk.header}); a multi-hunk diff cannot be applied in one place`;
+      }
+    } else {
+      const lines = block.split('\n');
+      const markers = CodePatcher.compileElisionMarkers(options.elisionMarkers);
+      searched = lines.filter(line => !CodePatcher.isElisionLine(line, markers));
+      if (searched.length === lines.length) {
+        replacementAt = start => CodePatcher.reindentLines(searched, 0, CodePatcher.detectIndent(fileLines[start] ?? ''), style);
+      } else {
+        note = 'Compared without the "... existing code ..." lines, so it cannot be applied anyway';
+      }
+    }
+
+    const minConfidence = options.minConfidence ?? 0.5;
+    const windowFloor = Math.max(3, Math.floor(searched.length / 2));
+    const report: NearMissReport = { format, searched, minConfidence, windowFloor, nearMisses: [], note };
+    if (searched.length === 0 || searched.every(line => !line.trim())) {
+      return report;
+    }
+
+    const matcher = CodePatcher.createLineMatcher(searched, fileLines, options.fuzzyMatch ?? true, options);
+    const taken: Array<[number, number]> = [];
+
+    for (const [from, to] of this.candidateRegions(searched, fileLines, matcher)) {
+      const nearMiss = this.describe(searched, fileLines, from, to, matcher, format, minConfidence, windowFloor);
+      if (!nearMiss || nearMiss.reasons.length === 0) continue;
+      if (taken.some(([s, e]) => nearMiss.startLine < e && s < nearMiss.endLine)) continue;
+
+      taken.push([nearMiss.startLine, nearMiss.endLine]);
+      if (replacementAt) {
+        nearMiss.match = {
+          startLine: nearMiss.startLine,
+          endLine: nearMiss.endLine,
+          baseIndent: CodePatcher.detectIndent(fileLines[nearMiss.startLine] ?? ''),
+          confidence: nearMiss.score,
+          similarity: nearMiss.matchedLines / searched.length,
+          contextBefore: [],
+          contextAfter: [],
+          contextMatchLength: nearMiss.matchedLines,
+          replacement: replacementAt(nearMiss.startLine)
+        };
+      }
+      report.nearMisses.push(nearMiss);
+    }
+
+    report.nearMisses.sort((a, b) => b.matchedLines - a.matchedLines || b.score - a.score);
+    report.nearMisses = report.nearMisses.slice(0, this.MAX_NEAR_MISSES);
+    return report;
+  }
+
+  /**
+   * File ranges worth aligning: the diagonals (file line minus block line)
+   * most block lines agree on, widened by half the block on each side so
+   * inserted or dropped lines still fit
+   */
+  private static candidateRegions(searched: string[], fileLines: string[], matcher: LineMatcher): Array<[number, number]> {
+    const votes = new Map<number, number>();
+    searched.forEach((line, i) => {
+      if (!line.trim()) return;
+      for (const j of matcher.positionsOf(i)) {
+        votes.set(j - i, (votes.get(j - i) ?? 0) + 1);
+      }
+    });
+
+    const slack = Math.ceil(searched.length / 2);
+    return [...votes.entries()]
+      .sort((a, b) => b[1] - a[1] || a[0] - b[0])
+      .slice(0, this.MAX_DIAGONALS)
+      .map(([diagonal]) => [
+        Math.max(0, diagonal - slack),
+        Math.min(fileLines.length, diagonal + searched.length + slack)
+      ] as [number, number]);
+  }
+
+  /**
+   * Align the block with a file range (longest common subsequence under the
+   * matcher), trim the range to the aligned lines and score it the way the
+   * matcher for this format would
+   */
+  private static describe(
+    searched: string[],
+    fileLines: string[],
+    from: number,
+    to: number,
+    matcher: LineMatcher,
+    format: PatchFormat,
+    minConfidence: number,
+    windowFloor: number
+  ): NearMiss | undefined {
+    const n = searched.length;
+    const m = to - from;
+    const lcs: number[][] = Array.from({ length: n + 1 }, () => new Array<number>(m + 1).fill(0));
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lcs[i][j] = matcher(i, from + j) ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+      }
+    }
+    if (lcs[0][0] === 0) return undefined;
+
+    const aligned: NearMissLine[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < n || j < m) {
+      if (i < n && j < m && matcher(i, from + j) && lcs[i][j] === lcs[i + 1][j + 1] + 1) {
+        aligned.push({ kind: 'matched', block: searched[i], file: fileLines[from + j], fileLine: from + j });
+        i++;
+        j++;
+      } else if (j < m && (i === n || lcs[i][j + 1] >= lcs[i + 1][j])) {
+        aligned.push({ kind: 'extra', file: fileLines[from + j], fileLine: from + j });
+        j++;
+      } else {
+        aligned.push({ kind: 'diverged', block: searched[i] });
+        i++;
+      }
+    }
+
+    // Only file lines between the first and last aligned ones belong to the region
+    const firstMatched = aligned.findIndex(line => line.kind === 'matched');
+    const lastMatched = aligned.length - 1 - [...aligned].reverse().findIndex(line => line.kind === 'matched');
+    const lines = aligned.filter((line, k) => line.kind !== 'extra' || (k > firstMatched && k < lastMatched));
+    const startLine = aligned[firstMatched].fileLine!;
+    const endLine = aligned[lastMatched].fileLine! + 1;
+
+    // Block lines that match at the region's edges, as the matchers count them
+    let prefix = 0;
+    while (prefix < n && startLine + prefix < endLine && matcher(prefix, startLine + prefix)) prefix++;
+    let suffix = 0;
+    while (suffix < n && endLine - 1 - suffix >= startLine && matcher(n - 1 - suffix, endLine - 1 - suffix)) suffix++;
+
+    const size = endLine - startLine;
+    const reasons: NearMissReason[] = [];
+    let score: number;
+
+    if (format === 'search-replace') {
+      let positional = 0;
+      for (let k = 0; k < n && startLine + k < fileLines.length; k++) {
+        if (matcher(k, startLine + k)) positional++;
+      }
+      score = positional / n;
+      if (prefix === 0 || suffix === 0) reasons.push('context');
+    } else {
+      score = Math.min(1, Math.min(1, (prefix + suffix) / n) * 0.7 + (size / n) * 0.3);
+      if (prefix + suffix < 2) reasons.push('context');
+      if (size < windowFloor) reasons.push('window-size');
+    }
+    if (score < minConfidence) reasons.push('threshold');
+
+    return { startLine, endLine, score, matchedLines: lcs[0][0], reasons, lines };
+  }
+
+  private static trimBlankEdges(lines: string[]): string[] {
+    let start = 0;
+    let end = lines.length;
+    while (start < end && lines[start].trim() === '') start++;
+    while (end > start && lines[end - 1].trim() === '') end--;
+    return lines.slice(start, end);
+  }
+}
@@ -0,0 +1,127 @@
+// nearMissView.ts - Report why a block matched nowhere and offer to apply it at a near miss anyway
+import * as vscode from 'vscode';
+import { Match } from './codePatcher';
+import { NearMiss, NearMissReason, NearMissReport } from './nearMiss';
+
+export type NearMissTarget = {
+    uri: vscode.Uri;
+    text: string; // File content the report was made from
+    report: NearMissReport;
+};
+
+export type NearMissChoice = {
+    uri: vscode.Uri;
+    text: string;
+    match: Match;
+};
+
+type NearMissItem = vscode.QuickPickItem & { target: NearMissTarget; nearMiss: NearMiss };
+
+const REASONS: Record<NearMissReason, string> = {
+    threshold: 'confidence below minConfidence',
+    'window-size': 'shorter than the smallest window tried',
+    context: 'first/last lines do not match'
+};
+
+export class NearMissView {
+    private static readonly REVEAL_BUTTON: vscode.QuickInputButton = {
+        iconPath: new vscode.ThemeIcon('go-to-file'),
+        tooltip: 'Reveal in Editor'
+    };
+    private static readonly REPORT_BUTTON: vscode.QuickInputButton = {
+        iconPath: new vscode.ThemeIcon('output'),
+        tooltip: 'Show Full Report'
+    };
+
+    /**
+     * Write the full report to the output channel and list the near misses.
+     * Accepting one resolves to it so the caller can apply the block there
+     * anyway; the item button only reveals the region.
+     */
+    static async show(targets: NearMissTarget[], channel: vscode.OutputChannel, title: string): Promise<NearMissChoice | undefined> {
+        this.write(targets, channel, title);
+
+        const items: NearMissItem[] = targets.flatMap(target => target.report.nearMisses.map(nearMiss => ({
+            label: `${nearMiss.match ? '$(warning)' : '$(circle-slash)'} ${vscode.workspace.asRelativePath(target.uri, false)}:${nearMiss.startLine + 1}-${nearMiss.endLine}`,
+            description: `${nearMiss.matchedLines} of ${target.report.searched.length} lines match, ${(nearMiss.score * 100).toFixed(0)}% confidence`,
+            detail: `Rejected: ${nearMiss.reasons.map(r => REASONS[r]).join('; ')}${nearMiss.match ? '' : ' — cannot be applied anyway'}`,
+            buttons: [this.REVEAL_BUTTON],
+            target,
+            nearMiss
+        })));
+
+        if (items.length === 0) {
+            const choice = await vscode.window.showInformationMessage('No region comes close to the block.', 'Show Report');
+            if (choice) channel.show(true);
+            return undefined;
+        }
+
+        const quickPick = vscode.window.createQuickPick<NearMissItem>();
+        quickPick.title = title;
+        quickPick.placeholder = 'Closest regions. Select one to apply the block there anyway.';
+        quickPick.items = items;
+        quickPick.buttons = [this.REPORT_BUTTON];
+        quickPick.matchOnDescription = true;
+        quickPick.matchOnDetail = true;
+        quickPick.ignoreFocusOut = true;
+
+        return new Promise<NearMissChoice | undefined>((resolve) => {
+            quickPick.onDidTriggerButton(() => channel.show(true));
+            quickPick.onDidTriggerItemButton(e => this.reveal(e.item));
+            quickPick.onDidAccept(() => {
+                const item = quickPick.selectedItems[0];
+                if (!item?.nearMiss.match) {
+                    if (item) this.reveal(item);
+                    return;
+                }
+                resolve({ uri: item.target.uri, text: item.target.text, match: item.nearMiss.match });
+                quickPick.hide();
+            });
+            quickPick.onDidHide(() => {
+                resolve(undefined);
+                quickPick.dispose();
+            });
+            quickPick.show();
+        });
+    }
+
+    private static write(targets: NearMissTarget[], channel: vscode.OutputChannel, title: string) {
+        channel.appendLine(`[${new Date().toLocaleTimeString()}] ${title}`);
+        const report = targets[0]?.report;
+        if (report) {
+            channel.appendLine(
+                `  Looked for ${report.searched.length} lines (${report.format}); minConfidence ${(report.minConfidence * 100).toFixed(0)}%, ` +
+                `smallest window ${report.windowFloor} lines`
+            );
+            if (report.note) channel.appendLine(`  Note: ${report.note}`);
+        }
+
+        for (const target of targets) {
+            for (const nearMiss of target.report.nearMisses) {
+                channel.appendLine('');
+                channel.appendLine(
+                    `  ${vscode.workspace.asRelativePath(target.uri, false)}:${nearMiss.startLine + 1}-${nearMiss.endLine}  ` +
+                    `${(nearMiss.score * 100).toFixed(0)}% confidence, ${nearMiss.matchedLines} of ${target.report.searched.length} lines match`
+                );
+                channel.appendLine(`  Rejected: ${nearMiss.reasons.map(r => REASONS[r]).join('; ')}`);
+                for (const line of nearMiss.lines) {
+                    const number = line.fileLine !== undefined ? String(line.fileLine + 1).padStart(5) : '     ';
+                    switch (line.kind) {
+                        case 'matched': channel.appendLine(`    ✓ ${number} │ ${line.file}`); break;
+                        case 'diverged': channel.appendLine(`    ✗ ${number} │ ${line.block}    (block only)`); break;
+                        case 'extra': channel.appendLine(`    + ${number} │ ${line.file}    (file only)`); break;
+                    }
+                }
+            }
+        }
+        if (targets.length === 0) {
+            channel.appendLine('  No region comes close to the block.');
+        }
+        channel.appendLine('');
+    }
+
+    private static async reveal(item: NearMissItem) {
+        const range = new vscode.Range(item.nearMiss.startLine, 0, item.nearMiss.endLine, 0);
+        await vscode.window.showTextDocument(item.target.uri, { selection: range, preview: true, preserveFocus: true });
+    }
+}
@@ -0,0 +1,258 @@
+// patchHistory.ts - Record applied patches and reveal, diff or revert them later
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { LineDiff } from './lineDiff';
+import { replaceDocumentText } from './documentEdit';
+
+export const HISTORY_SCHEME = 'ai-code-patcher-history';
+
+export type PatchSource = 'selection' | 'clipboard' | 'input' | 'inbox' | 'api' | 'codelens';
+
+export interface PatchHistoryEntry {
+    id: number;
+    timestamp: number;
+    source: PatchSource;
+    uri: string;         // Serialized so the history survives restarts
+    startLine: number;   // Matched range in the file before patching (end exclusive)
+    endLine: number;
+    afterEndLine: number; // End of the patched range in the file after patching
+    before: string;
+    after: string;
+    created?: boolean;    // The patch created the file; reverting deletes it
+    reverted?: boolean;
+}
+
+/**
+ * Keeps the last applied patches per workspace and backs the "Patch History"
+ * view. Unlike undo, entries survive saving, closing and reloading.
+ */
+export class PatchHistory implements vscode.TreeDataProvider<PatchHistoryEntry>, vscode.TextDocumentContentProvider, vscode.Disposable {
+    static readonly MAX_ENTRIES = 50;
+    static readonly MAX_STORED_CHARS = 8_000_000; // Before and after snapshots of all entries together
+    private static readonly STATE_KEY = 'aiCodePatcher.patchHistory';
+
+    private entries: PatchHistoryEntry[];
+    private readonly treeChanges = new vscode.EventEmitter<void>();
+    private readonly disposables: vscode.Disposable[] = [];
+
+    readonly onDidChangeTreeData = this.treeChanges.event;
+
+    constructor(private readonly state: vscode.Memento) {
+        this.entries = PatchHistory.withinBudget(state.get<PatchHistoryEntry[]>(PatchHistory.STATE_KEY, []));
+
+        this.disposables.push(
+            vscode.window.registerTreeDataProvider('aiCodePatcher.history', this),
+            vscode.workspace.registerTextDocumentContentProvider(HISTORY_SCHEME, this),
+            vscode.commands.registerCommand('aiCodePatcher.history.reveal', (entry: PatchHistoryEntry) => this.reveal(entry)),
+            vscode.commands.registerCommand('aiCodePatcher.history.diff', (entry: PatchHistoryEntry) => this.diff(entry)),
+            vscode.commands.registerCommand('aiCodePatcher.history.revert', (entry: PatchHistoryEntry) => this.revert(entry)),
+            vscode.commands.registerCommand('aiCodePatcher.history.clear', () => this.clear()),
+            this.treeChanges
+        );
+    }
+
+    /**
+     * Add an applied patch (newest first), dropping the oldest beyond
+     * MAX_ENTRIES or MAX_STORED_CHARS
+     */
+    async record(
+        source: PatchSource,
+        uri: vscode.Uri,
+        range: { startLine: number; endLine: number },
+        before: string,
+        after: string,
+        created: boolean = false
+    ) {
+        const lineDelta = after.split(/\r\n|\r|\n/).length - before.split(/\r\n|\r|\n/).length;
+        const entry: PatchHistoryEntry = {
+            id: (this.entries[0]?.id ?? 0) + 1,
+            timestamp: Date.now(),
+            source,
+            uri: uri.toString(),
+            startLine: range.startLine,
+            endLine: range.endLine,
+            afterEndLine: Math.max(range.startLine, range.endLine + lineDelta),
+            before,
+            after,
+            created: created || undefined
+        };
+        this.entries = PatchHistory.withinBudget([entry, ...this.entries]);
+        await this.save();
+    }
+
+    /**
+     * The newest entries that fit the limits; the newest one is always kept.
+     * Every snapshot is written to the workspace state on each change, so
+     * large files must not pile up there.
+     */
+    private static withinBudget(entries: PatchHistoryEntry[]): PatchHistoryEntry[] {
+        let stored = 0;
+        return entries.slice(0, this.MAX_ENTRIES).filter((entry, i) => {
+            stored += entry.before.length + entry.after.length;
+            return i === 0 || stored <= this.MAX_STORED_CHARS;
+        });
+    }
+
+    /**
+     * Files patched (and not reverted) since `since`, most recent first
+     */
+    recentFiles(since: number): vscode.Uri[] {
+        const uris = this.entries.filter(e => e.timestamp >= since && !e.reverted).map(e => e.uri);
+        return [...new Set(uris)].map(uri => vscode.Uri.parse(uri));
+    }
+
+    dispose() {
+        this.disposables.forEach(d => d.dispose());
+    }
+
+    // --- TreeDataProvider
+
+    getChildren(entry?: PatchHistoryEntry): PatchHistoryEntry[] {
+        return entry ? [] : this.entries;
+    }
+
+    getTreeItem(entry: PatchHistoryEntry): vscode.TreeItem {
+        const uri = vscode.Uri.parse(entry.uri);
+        const item = new vscode.TreeItem(entry.created ? `${path.basename(uri.path)} (new)` : `${path.basename(uri.path)}:${entry.startLine + 1}`);
+        const time = new Date(entry.timestamp).toLocaleTimeString();
+
+        item.description = `${vscode.workspace.asRelativePath(uri, false)} · ${entry.source} · ${time}${entry.reverted ? ' · reverted' : ''}`;
+        const what = entry.created ? 'Created' : `Patched lines ${entry.startLine + 1}-${entry.endLine} of`;
+        item.tooltip = `${what} ${uri.fsPath} from ${entry.source} at ${new Date(entry.timestamp).toLocaleString()}`;
+        item.iconPath = new vscode.ThemeIcon(entry.reverted ? 'discard' : 'diff');
+        item.contextValue = entry.reverted ? 'patchHistoryEntry.reverted' : 'patchHistoryEntry';
+        item.command = { command: 'aiCodePatcher.history.reveal', title: 'Reveal', arguments: [entry] };
+        return item;
+    }
+
+    // --- TextDocumentContentProvider (before/after snapshots for the diff)
+
+    provideTextDocumentContent(uri: vscode.Uri): string {
+        const [, id, side] = uri.path.split('/');
+        const entry = this.entries.find(e => String(e.id) === id);
+        return (side === 'before' ? entry?.before : entry?.after) ?? '';
+    }
+
+    private async reveal(entry: PatchHistoryEntry) {
+        try {
+            const document = await vscode.workspace.openTextDocument(vscode.Uri.parse(entry.uri));
+            const end = Math.min(Math.max(entry.afterEndLine, entry.startLine + 1), document.lineCount);
+            const range = new vscode.Range(Math.min(entry.startLine, document.lineCount - 1), 0, end, 0);
+            await vscode.window.showTextDocument(document, { selection: range });
+        } catch {
+            vscode.window.showWarningMessage(`${this.label(entry)} could not be opened.`);
+        }
+    }
+
+    private async diff(entry: PatchHistoryEntry) {
+        const name = path.basename(vscode.Uri.parse(entry.uri).path);
+        const before = vscode.Uri.from({ scheme: HISTORY_SCHEME, path: `/${entry.id}/before/${name}` });
+        const after = vscode.Uri.from({ scheme: HISTORY_SCHEME, path: `/${entry.id}/after/${name}` });
+        await vscode.commands.executeCommand('vscode.diff', before, after, `${name}: patch #${entry.id} (before ↔ after)`);
+    }
+
+    /**
+     * Undo one patch. When the file changed since, only the patched lines are
+     * reverted if the later edits do not touch them; otherwise the user can
+     * restore the whole file to its state before the patch.
+     */
+    private async revert(entry: PatchHistoryEntry) {
+        if (entry.reverted) {
+            vscode.window.showInformationMessage(`Patch #${entry.id} was already reverted.`);
+            return;
+        }
+
+        if (entry.created) {
+            await this.revertCreation(entry);
+            return;
+        }
+
+        let document: vscode.TextDocument;
+        try {
+            document = await vscode.workspace.openTextDocument(vscode.Uri.parse(entry.uri));
+        } catch {
+            vscode.window.showWarningMessage(`${this.label(entry)} no longer exists; nothing to revert.`);
+            return;
+        }
+
+        const split = (text: string) => text.split(/\r\n|\r|\n/);
+        const current = document.getText();
+        let reverted = entry.before;
+
+        if (current !== entry.after) {
+            const rebased = LineDiff.rebase(split(entry.after), split(entry.before), split(current));
+            const choice = rebased
+                ? await vscode.window.showWarningMessage(
+                    `${this.label(entry)} changed since this patch was applied. Revert only the patched lines and keep the later edits?`,
+                    { modal: true },
+                    'Revert'
+                )
+                : await vscode.window.showWarningMessage(
+                    `${this.label(entry)} changed in the patched lines since this patch was applied. Restoring it discards every later edit to the file.`,
+                    { modal: true },
+                    'Restore File'
+                );
+            if (!choice) return;
+            if (rebased) reverted = rebased.join('\n');
+        }
+
+        if (!(await replaceDocumentText(document, reverted))) {
+            vscode.window.showErrorMessage('Failed to revert the patch');
+            return;
+        }
+
+        entry.reverted = true;
+        await this.save();
+        await vscode.window.showTextDocument(document);
+        vscode.window.showInformationMessage(`✓ Reverted patch #${entry.id} in ${this.label(entry)}`);
+    }
+
+    /**
+     * Undo a patch that created its file by deleting the file again
+     */
+    private async revertCreation(entry: PatchHistoryEntry) {
+        const uri = vscode.Uri.parse(entry.uri);
+        let current: string | undefined;
+        try {
+            current = (await vscode.workspace.openTextDocument(uri)).getText();
+        } catch {
+            // Already deleted
+        }
+
+        if (current !== undefined && current !== entry.after) {
+            const choice = await vscode.window.showWarningMessage(
+                `${this.label(entry)} changed since this patch created it. Delete it anyway?`,
+                { modal: true },
+                'Delete File'
+            );
+            if (!choice) return;
+        }
+
+        if (current !== undefined) {
+            const edit = new vscode.WorkspaceEdit();
+            edit.deleteFile(uri, { ignoreIfNotExists: true });
+            if (!(await vscode.workspace.applyEdit(edit))) {
+                vscode.window.showErrorMessage('Failed to revert the patch');
+                return;
+            }
+        }
+
+        entry.reverted = true;
+        await this.save();
+        vscode.window.showInformationMessage(`✓ Reverted patch #${entry.id}: deleted ${this.label(entry)}`);
+    }
+
+    private async clear() {
+        this.entries = [];
+        await this.save();
+    }
+
+    private async save() {
+        await this.state.update(PatchHistory.STATE_KEY, this.entries);
+        this.treeChanges.fire();
+    }
+
+    private label(entry: PatchHistoryEntry): string {
+        return vscode.workspace.asRelativePath(vscode.Uri.parse(entry.uri), false);
+    }
+}
@@ -0,0 +1,183 @@
+// patchInbox.ts - Queue patches pushed to the localhost inbox and hand them to the workspace flow on request
+import * as vscode from 'vscode';
+import { InboxItem, InboxServer } from './inboxServer';
+
+/**
+ * Backs the "Patch Inbox" view. While the server runs, payloads from browser
+ * chats (or the reference client) are queued here; selecting one runs it
+ * through the regular scan, preview and confirmation. Nothing is applied
+ * without the user.
+ */
+export class PatchInbox implements vscode.TreeDataProvider<InboxItem>, vscode.Disposable {
+    static readonly MAX_ITEMS = 100;
+
+    private server: InboxServer | undefined;
+    private starting: Promise<InboxServer | undefined> | undefined; // Until the server listens
+    private items: InboxItem[] = [];
+    private readonly busy = new Set<number>();
+    private readonly view: vscode.TreeView<InboxItem>;
+    private readonly treeChanges = new vscode.EventEmitter<void>();
+    private readonly disposables: vscode.Disposable[] = [];
+
+    readonly onDidChangeTreeData = this.treeChanges.event;
+
+    /**
+     * `apply` resolves to true once the item's patch was written
+     */
+    constructor(private readonly apply: (item: InboxItem) => Promise<boolean>) {
+        this.view = vscode.window.createTreeView('aiCodePatcher.inbox', { treeDataProvider: this });
+
+        this.disposables.push(
+            this.view,
+            vscode.commands.registerCommand('aiCodePatcher.inbox.start', () => this.start()),
+            vscode.commands.registerCommand('aiCodePatcher.inbox.stop', () => this.stop()),
+            vscode.commands.registerCommand('aiCodePatcher.inbox.copyConnection', () => this.copyConnection()),
+            vscode.commands.registerCommand('aiCodePatcher.inbox.apply', (item: InboxItem) => this.applyItem(item)),
+            vscode.commands.registerCommand('aiCodePatcher.inbox.discard', (item: InboxItem) => this.discard(item)),
+            vscode.commands.registerCommand('aiCodePatcher.inbox.clear', () => this.clear()),
+            vscode.workspace.onDidChangeConfiguration(e => {
+                if (e.affectsConfiguration('aiCodePatcher.inbox.enabled')) void this.syncWithSettings();
+            }),
+            this.treeChanges
+        );
+
+        this.refresh();
+        void this.syncWithSettings();
+    }
+
+    dispose() {
+        void this.starting?.then(server => server?.stop());
+        void this.server?.stop();
+        this.disposables.forEach(d => d.dispose());
+    }
+
+    // --- TreeDataProvider
+
+    getChildren(item?: InboxItem): InboxItem[] {
+        return item ? [] : this.items;
+    }
+
+    getTreeItem(item: InboxItem): vscode.TreeItem {
+        const firstLine = (item.text.split('\n').find(l => l.trim()) ?? '').trim();
+        const tree = new vscode.TreeItem(item.pathHint ?? firstLine.slice(0, 60));
+        const time = new Date(item.received).toLocaleTimeString();
+
+        tree.description = [item.format, item.label, time].filter(Boolean).join(' · ');
+        tree.tooltip = new vscode.MarkdownString(`Received over ${item.via} at ${time}`).appendCodeblock(item.text, item.language ?? '');
+        tree.iconPath = new vscode.ThemeIcon(this.busy.has(item.id) ? 'loading~spin' : 'mail');
+        tree.contextValue = 'inboxItem';
+        tree.command = { command: 'aiCodePatcher.inbox.apply', title: 'Review and Apply', arguments: [item] };
+        return tree;
+    }
+
+    private async syncWithSettings() {
+        const enabled = vscode.workspace.getConfiguration('aiCodePatcher').get<boolean>('inbox.enabled', false);
+        if (enabled && !this.server) {
+            await this.start(false);
+        } else if (!enabled && (this.server || this.starting)) {
+            await this.stop();
+        }
+    }
+
+    private async start(announce: boolean = true) {
+        // A start from the settings and one from the command must not both listen
+        await this.starting;
+        if (this.server) {
+            if (announce) vscode.window.showInformationMessage(`Patch inbox is already listening on ${this.server.url}`);
+            return;
+        }
+
+        const port = vscode.workspace.getConfiguration('aiCodePatcher').get<number>('inbox.port', 0);
+        const server = new InboxServer(item => this.enqueue(item));
+        this.starting = server.start(port).then(
+            () => server,
+            (err) => {
+                vscode.window.showErrorMessage(`Patch inbox could not listen on port ${port}: ${(err as Error).message}`);
+                return undefined;
+            }
+        );
+        const started = await this.starting;
+        this.starting = undefined;
+        if (!started) return;
+
+        this.server = started;
+        this.refresh();
+        if (announce) {
+            const choice = await vscode.window.showInformationMessage(`Patch inbox listening on ${server.url}`, 'Copy Connection Info');
+            if (choice) await this.copyConnection();
+        }
+    }
+
+    private async stop() {
+        await this.starting;
+        const server = this.server;
+        this.server = undefined;
+        await server?.stop();
+        this.refresh();
+    }
+
+    /**
+     * URL and token for clients; the token changes with every start
+     */
+    private async copyConnection() {
+        if (!this.server) {
+            vscode.window.showWarningMessage('The patch inbox is not running.');
+            return;
+        }
+        const url = this.server.url!;
+        await vscode.env.clipboard.writeText(JSON.stringify({
+            url,
+            webSocket: `${url.replace(/^http/, 'ws')}/ws?token=${this.server.token}`,
+            token: this.server.token
+        }, null, 2));
+        vscode.window.showInformationMessage('Patch inbox URL and token copied to the clipboard.');
+    }
+
+    private enqueue(item: InboxItem) {
+        this.items = [...this.items, item].slice(-PatchInbox.MAX_ITEMS);
+        this.refresh();
+
+        const from = item.label ? ` from ${item.label}` : '';
+        const target = item.pathHint ? ` for ${item.pathHint}` : '';
+        void vscode.window.showInformationMessage(`Patch received${from}${target}`, 'Review').then(choice => {
+            if (choice) void this.applyItem(item);
+        });
+    }
+
+    /**
+     * Run an item through the workspace flow; it leaves the queue once applied
+     */
+    private async applyItem(item: InboxItem) {
+        if (!this.items.includes(item) || this.busy.has(item.id)) return;
+
+        this.busy.add(item.id);
+        this.refresh();
+        try {
+            if (await this.apply(item)) {
+                this.items = this.items.filter(i => i !== item);
+            }
+        } finally {
+            this.busy.delete(item.id);
+            this.refresh();
+        }
+    }
+
+    private discard(item: InboxItem) {
+        this.items = this.items.filter(i => i !== item);
+        this.refresh();
+    }
+
+    private clear() {
+        this.items = [];
+        this.refresh();
+    }
+
+    private refresh() {
+        this.view.badge = this.items.length > 0 ? { value: this.items.length, tooltip: `${this.items.length} patch(es) waiting` } : undefined;
+        this.view.message = !this.server
+            ? 'The inbox is off. Start it to receive patches from browser chats.'
+            : this.items.length === 0 ? `Listening on ${this.server.url}. No patches yet.` : undefined;
+        void vscode.commands.executeCommand('setContext', 'aiCodePatcher.inboxRunning', !!this.server);
+        this.treeChanges.fire();
+    }
+}
@@ -0,0 +1,183 @@
+// patchPreview.ts - Review proposed patches in VS Code's diff editor
+import * as vscode from 'vscode';
+import * as path from 'path';
+
+export const ORIGINAL_SCHEME = 'ai-code-patcher-original';
+export const PROPOSED_SCHEME = 'ai-code-patcher-proposed';
+
+type PendingPreview = {
+    original: vscode.Uri;
+    proposed: vscode.Uri;
+    resolve: (text: string | undefined) => void;
+};
+
+/**
+ * Serves the left (read-only snapshot) and right (editable proposal) sides of
+ * a patch preview and resolves each preview once the user applies or discards it.
+ *
+ * The proposed side lives in an in-memory file system so it can be edited by
+ * hand before it is accepted.
+ */
+export class PatchPreview implements vscode.TextDocumentContentProvider, vscode.FileSystemProvider, vscode.Disposable {
+    private readonly originals = new Map<string, string>();
+    private readonly proposals = new Map<string, Uint8Array>();
+    private readonly pending = new Map<string, PendingPreview>();
+    private readonly fileChanges = new vscode.EventEmitter<vscode.FileChangeEvent[]>();
+    private readonly disposables: vscode.Disposable[] = [];
+    private nextId = 1;
+
+    readonly onDidChangeFile = this.fileChanges.event;
+
+    constructor() {
+        this.disposables.push(
+            vscode.workspace.registerTextDocumentContentProvider(ORIGINAL_SCHEME, this),
+            vscode.workspace.registerFileSystemProvider(PROPOSED_SCHEME, this, { isCaseSensitive: true }),
+            vscode.commands.registerCommand('aiCodePatcher.preview.apply', (uri?: vscode.Uri) => this.settleFromEditor(uri, true)),
+            vscode.commands.registerCommand('aiCodePatcher.preview.discard', (uri?: vscode.Uri) => this.settleFromEditor(uri, false)),
+            // Closing the diff editor counts as discarding
+            vscode.window.tabGroups.onDidChangeTabs((e) => {
+                for (const tab of e.closed) {
+                    if (tab.input instanceof vscode.TabInputTextDiff && tab.input.modified.scheme === PROPOSED_SCHEME) {
+                        void this.settle(this.idOf(tab.input.modified), false);
+                    }
+                }
+            }),
+            this.fileChanges
+        );
+    }
+
+    /**
+     * Open the diff editor for a proposed change. Resolves with the (possibly
+     * hand-edited) proposed text when applied, or undefined when discarded.
+     */
+    async show(target: vscode.Uri, originalText: string, proposedText: string, title: string): Promise<string | undefined> {
+        const id = String(this.nextId++);
+        const name = path.basename(target.path) || 'untitled';
+        const original = vscode.Uri.from({ scheme: ORIGINAL_SCHEME, path: `/${id}/${name}` });
+        const proposed = vscode.Uri.from({ scheme: PROPOSED_SCHEME, path: `/${id}/${name}` });
+
+        this.originals.set(id, originalText);
+        this.proposals.set(id, Buffer.from(proposedText, 'utf8'));
+
+        const result = new Promise<string | undefined>((resolve) => {
+            this.pending.set(id, { original, proposed, resolve });
+        });
+
+        await vscode.commands.executeCommand('vscode.diff', original, proposed, `${title} (proposed)`, { preview: false });
+
+        // Buttons in the notification mirror the editor title actions
+        void vscode.window.showInformationMessage(
+            `Review the proposed change to ${vscode.workspace.asRelativePath(target, false)}. You can edit the right side before applying.`,
+            'Apply',
+            'Discard'
+        ).then(choice => {
+            if (choice) void this.settle(id, choice === 'Apply');
+        });
+
+        return result;
+    }
+
+    dispose() {
+        for (const id of [...this.pending.keys()]) {
+            void this.settle(id, false);
+        }
+        this.disposables.forEach(d => d.dispose());
+    }
+
+    private async settleFromEditor(uri: vscode.Uri | undefined, apply: boolean) {
+        const target = uri ?? vscode.window.activeTextEditor?.document.uri;
+        if (!target || (target.scheme !== PROPOSED_SCHEME && target.scheme !== ORIGINAL_SCHEME)) {
+            vscode.window.showWarningMessage('No patch preview is active.');
+            return;
+        }
+        await this.settle(this.idOf(target), apply);
+    }
+
+    private async settle(id: string, apply: boolean) {
+        const preview = this.pending.get(id);
+        if (!preview) return;
+        this.pending.delete(id);
+
+        // Pick up unsaved hand edits, then save so closing the tab does not prompt
+        let text = Buffer.from(this.proposals.get(id) ?? new Uint8Array()).toString('utf8');
+        const doc = vscode.workspace.textDocuments.find(d => d.uri.toString() === preview.proposed.toString());
+        if (doc) {
+            text = doc.getText();
+            if (doc.isDirty) {
+                await doc.save();
+            }
+        }
+
+        preview.resolve(apply ? text : undefined);
+        await this.closeTabs(preview.proposed);
+
+        this.originals.delete(id);
+        this.proposals.delete(id);
+    }
+
+    private async closeTabs(proposed: vscode.Uri) {
+        const tabs = vscode.window.tabGroups.all
+            .flatMap(group => group.tabs)
+            .filter(tab => tab.input instanceof vscode.TabInputTextDiff && tab.input.modified.toString() === proposed.toString());
+        if (tabs.length > 0) {
+            await vscode.window.tabGroups.close(tabs);
+        }
+    }
+
+    private idOf(uri: vscode.Uri): string {
+        return uri.path.split('/')[1] ?? '';
+    }
+
+    // --- TextDocumentContentProvider (original side)
+
+    provideTextDocumentContent(uri: vscode.Uri): string {
+        return this.originals.get(this.idOf(uri)) ?? '';
+    }
+
+    // --- FileSystemProvider (proposed side)
+
+    watch(): vscode.Disposable {
+        return new vscode.Disposable(() => undefined);
+    }
+
+    stat(uri: vscode.Uri): vscode.FileStat {
+        const data = this.proposals.get(this.idOf(uri));
+        if (!data) {
+            throw vscode.FileSystemError.FileNotFound(uri);
+        }
+        return { type: vscode.FileType.File, ctime: 0, mtime: Date.now(), size: data.byteLength };
+    }
+
+    readDirectory(): [string, vscode.FileType][] {
+        return [];
+    }
+
+    createDirectory(uri: vscode.Uri): void {
+        throw vscode.FileSystemError.NoPermissions(uri);
+    }
+
+    readFile(uri: vscode.Uri): Uint8Array {
+        const data = this.proposals.get(this.idOf(uri));
+        if (!data) {
+            throw vscode.FileSystemError.FileNotFound(uri);
+        }
+        return data;
+    }
+
+    writeFile(uri: vscode.Uri, content: Uint8Array): void {
+        const id = this.idOf(uri);
+        if (!this.proposals.has(id)) {
+            throw vscode.FileSystemError.FileNotFound(uri);
+        }
+        this.proposals.set(id, content);
+        this.fileChanges.fire([{ type: vscode.FileChangeType.Changed, uri }]);
+    }
+
+    delete(uri: vscode.Uri): void {
+        throw vscode.FileSystemError.NoPermissions(uri);
+    }
+
+    rename(uri: vscode.Uri): void {
+        throw vscode.FileSystemError.NoPermissions(uri);
+    }
+}
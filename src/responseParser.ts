@@ -0,0 +1,216 @@
+// responseParser.ts - Split AI chat responses into individual code blocks
+
+import { CodePatcher, PatchFormat } from './codePatcher';
+import { UnifiedDiff } from './unifiedDiff';
+import { SearchReplace } from './searchReplace';
+import { LineNormalizer } from './lineNormalizer';
+
+export interface ResponseBlock {
+  index: number;
+  text: string;
+  format: PatchFormat;
+  pathHint?: string;
+  language?: string;
+  info?: string;
+  fenced: boolean;
+  startLine: number; // Line of the opening fence (or first line when unfenced)
+  endLine: number;   // Line of the closing fence (or last line when unfenced)
+}
+
+export class ResponseParser {
+  /**
+   * Match an opening/closing fence line: indent, fence run, info string
+   */
+  static readonly FENCE_PATTERN = /^(\s*)(`{3,}|~{3,})(.*)$/;
+
+  /**
+   * A first line that is only a comment naming the file, e.g. "// src/foo.ts"
+   */
+  static readonly PATH_COMMENT = /^\s*(?:\/\/+|#+|--|;+|\/\*+|<!--)\s*(?:(?:file(?:name|path)?|path)\s*:\s*)?(\S+?)\s*(?:\*+\/|-->)?\s*$/i;
+
+  /**
+   * File extensions, besides the source languages in LineNormalizer, that a
+   * path comment without a folder may end in
+   */
+  static readonly FILE_EXTENSIONS = /\.(json|jsonc|md|mdx|txt|toml|ini|cfg|conf|env|bat|ps1|gradle|properties|graphql|proto)$/i;
+
+  /**
+   * Split a pasted response into its fenced code blocks.
+   * Text without any fences is returned as a single unfenced block.
+   */
+  static splitBlocks(text: string): ResponseBlock[] {
+    const lines = text.replace(/\r\n/g, '\n').replace(/\r/g, '\n').split('\n');
+    const blocks: ResponseBlock[] = [];
+
+    let i = 0;
+    while (i < lines.length) {
+      const open = lines[i].match(this.FENCE_PATTERN);
+      // Backtick fences cannot carry backticks in their info string
+      if (!open || (open[2][0] === '`' && open[3].includes('`'))) {
+        i++;
+        continue;
+      }
+
+      const indent = open[1].length;
+      const fence = open[2];
+      const info = open[3].trim();
+      const body: string[] = [];
+      let close = i + 1;
+
+      while (close < lines.length && !this.isClosingFence(lines[close], fence)) {
+        body.push(this.stripIndent(lines[close], indent));
+        close++;
+      }
+
+      const blockText = body.join('\n');
+      if (blockText.trim()) {
+        const format = CodePatcher.detectFormat(blockText);
+        const comment = format === 'context' ? this.stripPathComment(blockText) : undefined;
+        blocks.push(...this.expandBlock({
+          index: blocks.length,
+          text: comment?.text ?? blockText,
+          format,
+          pathHint: this.infoPath(info) ?? comment?.path,
+          language: info.split(/[\s:{]+/)[0] || undefined,
+          info: info || undefined,
+          fenced: true,
+          startLine: i,
+          endLine: Math.min(close, lines.length - 1)
+        }, this.headerPath(lines, i)));
+      }
+
+      i = close + 1;
+    }
+
+    if (blocks.length === 0 && text.trim()) {
+      // Keep the first line's indent; re-indentation measures the block's nesting
+      const unfenced = CodePatcher.trimBlankLines(text);
+      const format = CodePatcher.detectFormat(unfenced);
+      const comment = format === 'context' ? this.stripPathComment(unfenced) : undefined;
+      blocks.push(...this.expandBlock({
+        index: 0,
+        text: comment?.text ?? unfenced,
+        format,
+        pathHint: comment?.path,
+        fenced: false,
+        startLine: 0,
+        endLine: lines.length - 1
+      }));
+    }
+
+    return blocks.map((block, index) => ({ ...block, index }));
+  }
+
+  /**
+   * Split multi-file diffs into one block per file and SEARCH/REPLACE blocks
+   * into one block per pair, carrying file headers/path lines as path hints.
+   * Other blocks keep their own hint, or take the path named above the fence.
+   */
+  static expandBlock(block: ResponseBlock, pathAbove?: string): ResponseBlock[] {
+    if (block.format === 'unified-diff') {
+      return UnifiedDiff.parse(block.text).map((file) => ({
+        ...block,
+        text: file.text,
+        pathHint: UnifiedDiff.targetPath(file)
+      }));
+    }
+
+    if (block.format === 'search-replace') {
+      return SearchReplace.parse(block.text, block.pathHint ?? pathAbove).map((pair) => ({
+        ...block,
+        text: SearchReplace.format(pair),
+        pathHint: pair.pathHint
+      }));
+    }
+
+    return [{ ...block, pathHint: block.pathHint ?? pathAbove }];
+  }
+
+  /**
+   * Path in a fence info string: "ts src/foo.ts", "ts:src/foo.ts",
+   * "ts title=\"src/foo.ts\"" or "{file=src/foo.ts}"
+   */
+  static infoPath(info: string): string | undefined {
+    for (const token of info.split(/[\s{}]+/).filter(Boolean)) {
+      const value = token
+        .replace(/^(?:title|file(?:name|path)?|path)=/i, '')
+        .replace(/^["']|["']$/g, '')
+        .replace(/^[\w+#-]+:(?![/\\])/, '');
+      if (SearchReplace.looksLikePath(value)) {
+        return value;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Path named in the line above a fence (at most one blank line away):
+   * a bare path, a heading ("### src/foo.ts"), a label ("File: src/foo.ts")
+   * or a sentence ending in a colon that quotes one path ("Update `src/foo.ts`:")
+   */
+  static headerPath(lines: string[], fenceLine: number): string | undefined {
+    let i = fenceLine - 1;
+    if (i >= 0 && !lines[i].trim()) i--;
+    if (i < 0) return undefined;
+
+    const line = lines[i].trim()
+      .replace(/^#+\s*/, '')
+      .replace(/^(?:file(?:name|path)?|path)\s*:\s*/i, '');
+    if (SearchReplace.looksLikePath(line)) {
+      return SearchReplace.unwrapPath(line);
+    }
+
+    if (line.endsWith(':')) {
+      const quoted = [...line.matchAll(/`([^`]+)`/g)].map(m => m[1]).filter(q => SearchReplace.looksLikePath(q));
+      if (quoted.length === 1) return quoted[0];
+    }
+    return undefined;
+  }
+
+  /**
+   * Remove a leading "// src/foo.ts" style comment and return the path it names
+   */
+  static stripPathComment(text: string): { text: string; path: string } | undefined {
+    const lines = text.split('\n');
+    const first = lines.findIndex(l => l.trim());
+    const m = first >= 0 ? lines[first].match(this.PATH_COMMENT) : null;
+    if (!m || !this.isCommentedPath(m[1])) {
+      return undefined;
+    }
+
+    const rest = CodePatcher.trimBlankLines(lines.slice(first + 1).join('\n'));
+    return rest.trim() ? { text: rest, path: SearchReplace.unwrapPath(m[1]) } : undefined;
+  }
+
+  /**
+   * Stricter than a path in a heading: "// console.log" or "# os.path.join"
+   * are code, so a commented path needs a folder or a known file extension
+   */
+  private static isCommentedPath(candidate: string): boolean {
+    const file = SearchReplace.unwrapPath(candidate);
+    return SearchReplace.looksLikePath(candidate) && !/[\s()]/.test(file) &&
+      (file.includes('/') || !!LineNormalizer.languageForPath(file) || this.FILE_EXTENSIONS.test(file));
+  }
+
+  /**
+   * A closing fence uses the same character and is at least as long as the opener
+   */
+  static isClosingFence(line: string, fence: string): boolean {
+    const trimmed = line.trim();
+    if (trimmed.length < fence.length || trimmed[0] !== fence[0]) {
+      return false;
+    }
+    return /^(`+|~+)$/.test(trimmed);
+  }
+
+  /**
+   * Remove up to `indent` leading spaces (fences nested in list items)
+   */
+  static stripIndent(line: string, indent: number): string {
+    let i = 0;
+    while (i < indent && i < line.length && line[i] === ' ') {
+      i++;
+    }
+    return line.slice(i);
+  }
+}
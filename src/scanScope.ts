@@ -0,0 +1,127 @@
+// scanScope.ts - Limit workspace scans to a folder, the open editors or the files changed in git
+import * as vscode from 'vscode';
+
+type GitChange = { uri: vscode.Uri };
+type GitApi = {
+    repositories: Array<{ state: { workingTreeChanges: GitChange[]; indexChanges: GitChange[]; untrackedChanges?: GitChange[] } }>;
+};
+
+export type ScopeKind = 'workspace' | 'folder' | 'open' | 'changed';
+
+/**
+ * The session's scan scope, chosen with "Set Scan Scope…" and shown in the
+ * status bar while it is narrower than the workspace. Open editors and
+ * changed files are looked up at every scan, not when the scope is chosen.
+ */
+export class ScanScope implements vscode.Disposable {
+    private kind: ScopeKind = 'workspace';
+    private folder: vscode.Uri | undefined;
+    private readonly statusItem: vscode.StatusBarItem;
+    private readonly disposables: vscode.Disposable[] = [];
+
+    constructor() {
+        this.statusItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 50);
+        this.statusItem.command = 'aiCodePatcher.setScanScope';
+        this.statusItem.tooltip = 'AI Code Patcher only scans these files. Click to change.';
+
+        this.disposables.push(
+            this.statusItem,
+            vscode.commands.registerCommand('aiCodePatcher.setScanScope', () => this.pick())
+        );
+    }
+
+    dispose() {
+        this.disposables.forEach(d => d.dispose());
+    }
+
+    get label(): string {
+        switch (this.kind) {
+            case 'workspace': return 'Whole workspace';
+            case 'folder': return vscode.workspace.asRelativePath(this.folder!, false);
+            case 'open': return 'Open editors';
+            case 'changed': return 'Changed files';
+        }
+    }
+
+    /**
+     * Absolute paths a scan is limited to; undefined for the whole workspace
+     */
+    paths(): string[] | undefined {
+        switch (this.kind) {
+            case 'workspace': return undefined;
+            case 'folder': return [this.folder!.fsPath];
+            case 'open': return ScanScope.openFiles().map(uri => uri.fsPath);
+            case 'changed': return ScanScope.changedFiles().map(uri => uri.fsPath);
+        }
+    }
+
+    /**
+     * Files open as text tabs in any editor group
+     */
+    static openFiles(): vscode.Uri[] {
+        const uris = vscode.window.tabGroups.all
+            .flatMap(group => group.tabs)
+            .map(tab => tab.input)
+            .filter((input): input is vscode.TabInputText => input instanceof vscode.TabInputText)
+            .map(input => input.uri)
+            .filter(uri => uri.scheme === 'file');
+        return [...new Map(uris.map(uri => [uri.toString(), uri] as [string, vscode.Uri])).values()];
+    }
+
+    /**
+     * Files with staged, unstaged or untracked changes, from the built-in git
+     * extension; empty while it is not active
+     */
+    static changedFiles(): vscode.Uri[] {
+        const git = vscode.extensions.getExtension<{ getAPI(version: 1): GitApi }>('vscode.git');
+        if (!git?.isActive) return [];
+
+        try {
+            const changes = git.exports.getAPI(1).repositories.flatMap(repo => [
+                ...repo.state.workingTreeChanges,
+                ...repo.state.indexChanges,
+                ...(repo.state.untrackedChanges ?? [])
+            ]);
+            return [...new Map(changes.map(c => [c.uri.toString(), c.uri] as [string, vscode.Uri])).values()];
+        } catch {
+            return [];
+        }
+    }
+
+    private async pick() {
+        type ScopeItem = vscode.QuickPickItem & { scope: ScopeKind };
+        const current = (kind: ScopeKind) => kind === this.kind ? ' (current)' : '';
+        const items: ScopeItem[] = [
+            { label: `$(root-folder) Whole workspace${current('workspace')}`, scope: 'workspace' },
+            { label: `$(folder) Folder…${current('folder')}`, description: this.folder && vscode.workspace.asRelativePath(this.folder, false), scope: 'folder' },
+            { label: `$(files) Open editors${current('open')}`, description: `${ScanScope.openFiles().length} files now`, scope: 'open' },
+            { label: `$(git-commit) Changed files${current('changed')}`, description: `${ScanScope.changedFiles().length} files now`, scope: 'changed' }
+        ];
+
+        const picked = await vscode.window.showQuickPick(items, { placeHolder: 'Limit workspace scans to…' });
+        if (!picked) return;
+
+        if (picked.scope === 'folder') {
+            const [folder] = await vscode.window.showOpenDialog({
+                canSelectFiles: false,
+                canSelectFolders: true,
+                defaultUri: this.folder ?? vscode.workspace.workspaceFolders?.[0]?.uri,
+                openLabel: 'Limit Scans to Folder'
+            }) ?? [];
+            if (!folder) return;
+            if (!vscode.workspace.getWorkspaceFolder(folder)) {
+                vscode.window.showErrorMessage('Choose a folder inside the workspace.');
+                return;
+            }
+            this.folder = folder;
+        }
+
+        this.kind = picked.scope;
+        if (this.kind === 'workspace') {
+            this.statusItem.hide();
+        } else {
+            this.statusItem.text = `$(filter) ${this.label}`;
+            this.statusItem.show();
+        }
+    }
+}
@@ -0,0 +1,8 @@
+// scanWorker.ts - Worker thread entry for WorkspaceScanner: matches one batch of files per message
+
+import { parentPort } from 'worker_threads';
+import { ScanBatch, WorkspaceScanner } from './workspaceScanner';
+
+parentPort?.on('message', (batch: ScanBatch) => {
+  parentPort!.postMessage({ id: batch.id, results: WorkspaceScanner.scanBatch(batch) });
+});
@@ -0,0 +1,89 @@
+// searchReplace.ts - Parse <<<<<<< SEARCH / ======= / >>>>>>> REPLACE blocks
+
+export interface SearchReplaceBlock {
+  search: string[];
+  replace: string[];
+  pathHint?: string;
+}
+
+export class SearchReplace {
+  static readonly SEARCH_MARKER = /^\s*<{5,9} ?SEARCH\s*$/;
+  static readonly DIVIDER = /^\s*={5,9}\s*$/;
+  static readonly REPLACE_MARKER = /^\s*>{5,9} ?REPLACE\s*$/;
+
+  /**
+   * Cheap check used to route a block to the SEARCH/REPLACE matcher
+   */
+  static isSearchReplace(text: string): boolean {
+    const lines = text.replace(/\r\n?/g, '\n').split('\n');
+    const search = lines.findIndex(l => this.SEARCH_MARKER.test(l));
+    if (search < 0) return false;
+    const divider = lines.findIndex((l, i) => i > search && this.DIVIDER.test(l));
+    return divider > 0 && lines.some((l, i) => i > divider && this.REPLACE_MARKER.test(l));
+  }
+
+  /**
+   * Parse every SEARCH/REPLACE pair. A file path on the line above a pair
+   * (aider style) becomes its path hint and carries over to later pairs.
+   */
+  static parse(text: string, defaultPath?: string): SearchReplaceBlock[] {
+    const lines = text.replace(/\r\n?/g, '\n').split('\n');
+    const blocks: SearchReplaceBlock[] = [];
+    let pathHint = defaultPath;
+
+    for (let i = 0; i < lines.length; i++) {
+      if (!this.SEARCH_MARKER.test(lines[i])) continue;
+
+      const above = this.previousNonEmpty(lines, i);
+      if (above !== undefined && this.looksLikePath(above)) {
+        pathHint = above.trim();
+      }
+
+      const search: string[] = [];
+      const replace: string[] = [];
+      let j = i + 1;
+      while (j < lines.length && !this.DIVIDER.test(lines[j])) {
+        search.push(lines[j++]);
+      }
+      j++;
+      while (j < lines.length && !this.REPLACE_MARKER.test(lines[j])) {
+        replace.push(lines[j++]);
+      }
+      if (j >= lines.length) break; // Unterminated block
+
+      blocks.push({ search, replace, pathHint });
+      i = j;
+    }
+
+    return blocks;
+  }
+
+  /**
+   * Render a single pair back to block text (used when splitting responses)
+   */
+  static format(block: SearchReplaceBlock): string {
+    return ['<<<<<<< SEARCH', ...block.search, '=======', ...block.replace, '>>>>>>> REPLACE'].join('\n');
+  }
+
+  /**
+   * A bare relative/absolute file path, optionally wrapped in backticks or bold markers
+   */
+  static looksLikePath(line: string): boolean {
+    const candidate = this.unwrapPath(line);
+    return /^[\w.@~-][\w./@~-]*\.\w+$/.test(candidate) || /^[\w.@~-]*\/[\w./@~-]+$/.test(candidate);
+  }
+
+  static unwrapPath(line: string): string {
+    return line.trim().replace(/^[*`]+|[*`:]+$/g, '').trim();
+  }
+
+  private static previousNonEmpty(lines: string[], index: number): string | undefined {
+    for (let i = index - 1; i >= 0; i--) {
+      if (lines[i].trim()) {
+        // Stop at the closing marker of a previous pair
+        return this.REPLACE_MARKER.test(lines[i]) ? undefined : this.unwrapPath(lines[i]);
+      }
+    }
+    return undefined;
+  }
+}
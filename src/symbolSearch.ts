@@ -0,0 +1,162 @@
+// symbolSearch.ts - Match whole-declaration blocks against document symbols
+import * as vscode from 'vscode';
+import { CodePatcher, Match, PatchOptions } from './codePatcher';
+import { Declaration, DeclarationInfo, DeclarationKind } from './declaration';
+
+export type SymbolCandidate = {
+    uri: vscode.Uri;
+    fileContent: string;
+    match: Match;
+    version: number;
+    symbol: string; // "Container.name (Kind)" for display
+};
+
+type FlatSymbol = {
+    name: string;
+    container?: string;
+    kind: vscode.SymbolKind;
+    range: vscode.Range;
+};
+
+/**
+ * Symbol kinds a detected declaration may be reported as; language servers
+ * disagree (arrow functions are variables, Go methods are functions, …)
+ */
+const COMPATIBLE_KINDS: Record<DeclarationKind, vscode.SymbolKind[]> = {
+    function: [vscode.SymbolKind.Function, vscode.SymbolKind.Method, vscode.SymbolKind.Variable, vscode.SymbolKind.Constant],
+    method: [vscode.SymbolKind.Method, vscode.SymbolKind.Function, vscode.SymbolKind.Constructor, vscode.SymbolKind.Property],
+    class: [vscode.SymbolKind.Class],
+    interface: [vscode.SymbolKind.Interface],
+    enum: [vscode.SymbolKind.Enum],
+    struct: [vscode.SymbolKind.Struct, vscode.SymbolKind.Class],
+    type: [vscode.SymbolKind.TypeParameter, vscode.SymbolKind.Interface, vscode.SymbolKind.Class, vscode.SymbolKind.Struct, vscode.SymbolKind.Variable],
+    namespace: [vscode.SymbolKind.Namespace, vscode.SymbolKind.Module, vscode.SymbolKind.Package]
+};
+
+export class SymbolSearch {
+    static readonly MAX_FILES = 30;
+
+    /**
+     * Candidates for a block that is one whole declaration: symbols with the
+     * same name and a compatible kind, each covering the symbol's full range.
+     * When the declaration names its owner, symbols in other containers are
+     * dropped so overloads and same-named methods stay apart.
+     */
+    static async findCandidates(
+        declaration: DeclarationInfo,
+        codeBlock: string,
+        uris: vscode.Uri[],
+        optionsFor: (uri: vscode.Uri) => PatchOptions,
+        token?: vscode.CancellationToken
+    ): Promise<SymbolCandidate[]> {
+        const candidates: SymbolCandidate[] = [];
+        const blockLines = CodePatcher.normalizeLineEndings(CodePatcher.trimBlankLines(codeBlock)).split('\n');
+
+        for (const uri of uris.slice(0, this.MAX_FILES)) {
+            if (token?.isCancellationRequested) break;
+
+            let document: vscode.TextDocument;
+            let symbols: Array<vscode.DocumentSymbol | vscode.SymbolInformation> | undefined;
+            try {
+                document = await vscode.workspace.openTextDocument(uri);
+                symbols = await vscode.commands.executeCommand<Array<vscode.DocumentSymbol | vscode.SymbolInformation>>(
+                    'vscode.executeDocumentSymbolProvider',
+                    uri
+                );
+            } catch {
+                continue;
+            }
+            if (!symbols?.length) continue;
+
+            let matching = this.flatten(symbols).filter(s =>
+                s.name === declaration.name && COMPATIBLE_KINDS[declaration.kind].includes(s.kind)
+            );
+            if (declaration.container) {
+                matching = matching.filter(s => s.container === declaration.container);
+            }
+
+            const fileContent = document.getText();
+            const fileLines = CodePatcher.fileLines(fileContent);
+            for (const symbol of matching) {
+                candidates.push({
+                    uri,
+                    fileContent,
+                    match: this.toMatch(symbol, declaration, blockLines, fileLines, optionsFor(uri)),
+                    version: document.version,
+                    symbol: `${symbol.container ? symbol.container + '.' : ''}${symbol.name} (${vscode.SymbolKind[symbol.kind]})`
+                });
+            }
+        }
+
+        return candidates.sort((a, b) => b.match.confidence - a.match.confidence);
+    }
+
+    /**
+     * Symbols of a document with their owner, whichever shape the provider returns
+     */
+    private static flatten(symbols: Array<vscode.DocumentSymbol | vscode.SymbolInformation>, parent?: string): FlatSymbol[] {
+        const flat: FlatSymbol[] = [];
+        for (const symbol of symbols) {
+            const { name, container } = Declaration.normalizeSymbolName(symbol.name);
+            if ('children' in symbol) {
+                flat.push({ name, container: container ?? parent, kind: symbol.kind, range: symbol.range });
+                flat.push(...this.flatten(symbol.children, name));
+            } else {
+                const owner = symbol.containerName ? Declaration.normalizeSymbolName(symbol.containerName).name : undefined;
+                flat.push({ name, container: container ?? owner, kind: symbol.kind, range: symbol.location.range });
+            }
+        }
+        return flat;
+    }
+
+    /**
+     * The symbol's lines (plus the comments above it when the block brings its
+     * own) replaced by the block, re-indented to the symbol's indent
+     */
+    private static toMatch(
+        symbol: FlatSymbol,
+        declaration: DeclarationInfo,
+        blockLines: string[],
+        fileLines: string[],
+        options: PatchOptions
+    ): Match {
+        let startLine = symbol.range.start.line;
+        const endLine = symbol.range.end.character === 0 && symbol.range.end.line > startLine
+            ? symbol.range.end.line
+            : symbol.range.end.line + 1;
+
+        if (declaration.headerIndex > 0) {
+            while (startLine > 0 && fileLines[startLine - 1].trim() && Declaration.isPreamble(fileLines[startLine - 1])) {
+                startLine--;
+            }
+        } else {
+            // Keep decorators and doc comments the block does not repeat
+            while (startLine < endLine - 1 && Declaration.isPreamble(fileLines[startLine])) {
+                startLine++;
+            }
+        }
+
+        const symbolLines = fileLines.slice(startLine, endLine);
+        const fileHeader = symbolLines.find(line => !Declaration.isPreamble(line)) ?? symbolLines[0] ?? '';
+        const baseIndent = CodePatcher.detectIndent(fileHeader);
+        const style = options.indentStyle ?? CodePatcher.detectIndentStyle(fileLines);
+        const similarity = CodePatcher.similarityRatio(
+            CodePatcher.normalizeLine(declaration.header),
+            CodePatcher.normalizeLine(fileHeader)
+        );
+
+        const replacement = CodePatcher.reindentLines(blockLines, declaration.headerIndex, baseIndent, style);
+        return {
+            startLine,
+            endLine,
+            baseIndent,
+            confidence: 0.75 + 0.25 * similarity,
+            contextBefore: [],
+            contextAfter: [],
+            similarity,
+            contextMatchLength: 0,
+            replacement,
+            applied: replacement.length === symbolLines.length && replacement.every((line, i) => line === symbolLines[i]) || undefined
+        };
+    }
+}
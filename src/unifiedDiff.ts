@@ -0,0 +1,164 @@
+// unifiedDiff.ts - Parse unified diff / git patch text into per-file hunks
+
+export interface DiffHunk {
+  header: string;
+  oldStart?: number; // 1-based, undefined for "@@ @@" hunks without line numbers
+  oldLines?: number;
+  newStart?: number;
+  newLines?: number;
+  lines: string[];   // Body lines including their ' ', '-' or '+' prefix
+}
+
+export interface FileDiff {
+  oldPath?: string;
+  newPath?: string;
+  hunks: DiffHunk[];
+  text: string;      // The raw diff text for this file only
+}
+
+export class UnifiedDiff {
+  static readonly HUNK_HEADER = /^@@\s*(?:-(\d+)(?:,(\d+))?\s+\+(\d+)(?:,(\d+))?)?\s*@@(.*)$/;
+
+  /**
+   * Cheap check used to route a block to the diff parser
+   */
+  static isUnifiedDiff(text: string): boolean {
+    const lines = text.replace(/\r\n?/g, '\n').split('\n');
+    let hasHeader = false;
+    let hasHunk = false;
+
+    for (let i = 0; i < lines.length; i++) {
+      if (/^diff --git /.test(lines[i]) || (/^--- /.test(lines[i]) && /^\+\+\+ /.test(lines[i + 1] ?? ''))) {
+        hasHeader = true;
+      } else if (this.HUNK_HEADER.test(lines[i])) {
+        hasHunk = true;
+      }
+    }
+
+    // A bare "@@ -1,3 +1,4 @@" hunk is enough; "@@ @@" alone needs file headers
+    return hasHunk && (hasHeader || /^@@\s*-\d+/m.test(text));
+  }
+
+  /**
+   * Parse diff text into one entry per file. Hunk line counts are treated as
+   * hints only; AI-written diffs frequently get them wrong.
+   */
+  static parse(text: string): FileDiff[] {
+    const lines = text.replace(/\r\n?/g, '\n').split('\n');
+    const files: FileDiff[] = [];
+    let file: FileDiff | undefined;
+    let fileStartLine = 0;
+    let hunk: DiffHunk | undefined;
+
+    const closeFile = (endLine: number) => {
+      if (file) {
+        this.trimHunk(hunk);
+        file.text = lines.slice(fileStartLine, endLine).join('\n');
+        files.push(file);
+      }
+      file = undefined;
+      hunk = undefined;
+    };
+
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i];
+
+      const gitHeader = line.match(/^diff --git (\S+) (\S+)/);
+      if (gitHeader) {
+        closeFile(i);
+        file = { oldPath: this.cleanPath(gitHeader[1]), newPath: this.cleanPath(gitHeader[2]), hunks: [], text: '' };
+        fileStartLine = i;
+        continue;
+      }
+
+      if (/^--- /.test(line) && /^\+\+\+ /.test(lines[i + 1] ?? '')) {
+        // Already inside a "diff --git" section whose headers come next?
+        if (!file || file.hunks.length > 0) {
+          closeFile(i);
+          file = { hunks: [], text: '' };
+          fileStartLine = i;
+        }
+        file.oldPath = this.cleanPath(line.slice(4));
+        file.newPath = this.cleanPath(lines[i + 1].slice(4));
+        hunk = undefined;
+        i++;
+        continue;
+      }
+
+      const header = line.match(this.HUNK_HEADER);
+      if (header) {
+        if (!file) {
+          file = { hunks: [], text: '' };
+          fileStartLine = i;
+        }
+        this.trimHunk(hunk);
+        hunk = {
+          header: line,
+          oldStart: header[1] !== undefined ? parseInt(header[1], 10) : undefined,
+          oldLines: header[1] !== undefined ? (header[2] !== undefined ? parseInt(header[2], 10) : 1) : undefined,
+          newStart: header[3] !== undefined ? parseInt(header[3], 10) : undefined,
+          newLines: header[3] !== undefined ? (header[4] !== undefined ? parseInt(header[4], 10) : 1) : undefined,
+          lines: []
+        };
+        file.hunks.push(hunk);
+        continue;
+      }
+
+      if (!hunk) continue; // git metadata ("index …", "new file mode …") or prose
+
+      if (line === '' || line[0] === ' ' || line[0] === '-' || line[0] === '+') {
+        hunk.lines.push(line === '' ? ' ' : line);
+      } else if (line[0] !== '\\') { // "\ No newline at end of file" is ignored
+        this.trimHunk(hunk);
+        hunk = undefined;
+      }
+    }
+
+    closeFile(lines.length);
+    return files.filter(f => f.hunks.length > 0);
+  }
+
+  /**
+   * Lines the hunk expects to find in the file
+   */
+  static oldSide(hunk: DiffHunk): string[] {
+    return hunk.lines.filter(l => l[0] !== '+').map(l => l.slice(1));
+  }
+
+  /**
+   * Lines the hunk leaves in the file
+   */
+  static newSide(hunk: DiffHunk): string[] {
+    return hunk.lines.filter(l => l[0] !== '-').map(l => l.slice(1));
+  }
+
+  /**
+   * Workspace-relative path the diff targets (new path, unless the file is deleted)
+   */
+  static targetPath(file: FileDiff): string | undefined {
+    return file.newPath ?? file.oldPath;
+  }
+
+  /**
+   * Strip "a/" / "b/" prefixes, quotes and trailing timestamps; /dev/null means no file
+   */
+  static cleanPath(raw: string): string | undefined {
+    let p = raw.split('\t')[0].trim();
+    if (p.startsWith('"') && p.endsWith('"')) {
+      p = p.slice(1, -1);
+    }
+    if (!p || p === '/dev/null') {
+      return undefined;
+    }
+    return p.replace(/^[ab]\//, '');
+  }
+
+  /**
+   * Blank lines after the last hunk are usually chat formatting, not context
+   */
+  private static trimHunk(hunk: DiffHunk | undefined) {
+    while (hunk && hunk.lines.length > 0 && hunk.lines[hunk.lines.length - 1].trim() === '') {
+      hunk.lines.pop();
+    }
+  }
+}
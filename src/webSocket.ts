@@ -0,0 +1,105 @@
+// webSocket.ts - Minimal RFC 6455 framing for the patch inbox and its client (no vscode dependency)
+
+import { createHash, randomBytes } from 'crypto';
+
+export interface WebSocketFrame {
+  fin: boolean;
+  opcode: number;
+  masked: boolean;
+  payload: Buffer; // Unmasked
+}
+
+export class WebSocketFrames {
+  static readonly CONTINUATION = 0x0;
+  static readonly TEXT = 0x1;
+  static readonly CLOSE = 0x8;
+  static readonly PING = 0x9;
+  static readonly PONG = 0xa;
+  private static readonly GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+  /**
+   * Sec-WebSocket-Accept for a handshake's Sec-WebSocket-Key
+   */
+  static acceptKey(key: string): string {
+    return createHash('sha1').update(key + this.GUID).digest('base64');
+  }
+
+  /**
+   * One unfragmented frame. Clients must mask what they send, servers must not.
+   */
+  static encode(opcode: number, payload: Buffer | string, mask: boolean = false): Buffer {
+    const data = typeof payload === 'string' ? Buffer.from(payload, 'utf8') : payload;
+    const maskBit = mask ? 0x80 : 0;
+
+    let head: Buffer;
+    if (data.length < 126) {
+      head = Buffer.from([0x80 | opcode, maskBit | data.length]);
+    } else if (data.length < 0x10000) {
+      head = Buffer.from([0x80 | opcode, maskBit | 126, 0, 0]);
+      head.writeUInt16BE(data.length, 2);
+    } else {
+      head = Buffer.alloc(10);
+      head[0] = 0x80 | opcode;
+      head[1] = maskBit | 127;
+      head.writeBigUInt64BE(BigInt(data.length), 2);
+    }
+
+    if (!mask) {
+      return Buffer.concat([head, data]);
+    }
+    const key = randomBytes(4);
+    return Buffer.concat([head, key, this.unmask(data, key)]);
+  }
+
+  /**
+   * Split received bytes into complete frames. The bytes of an incomplete
+   * last frame come back as `rest`; frames over `maxPayload` throw a RangeError.
+   */
+  static decode(buffer: Buffer, maxPayload: number): { frames: WebSocketFrame[]; rest: Buffer } {
+    const frames: WebSocketFrame[] = [];
+    let offset = 0;
+
+    while (buffer.length - offset >= 2) {
+      const fin = (buffer[offset] & 0x80) !== 0;
+      const opcode = buffer[offset] & 0x0f;
+      const masked = (buffer[offset + 1] & 0x80) !== 0;
+      let length = buffer[offset + 1] & 0x7f;
+      let pos = offset + 2;
+
+      if (length === 126) {
+        if (buffer.length < pos + 2) break;
+        length = buffer.readUInt16BE(pos);
+        pos += 2;
+      } else if (length === 127) {
+        if (buffer.length < pos + 8) break;
+        const long = buffer.readBigUInt64BE(pos);
+        length = long > BigInt(maxPayload) ? maxPayload + 1 : Number(long);
+        pos += 8;
+      }
+      if (length > maxPayload) {
+        throw new RangeError(`WebSocket frame larger than ${maxPayload} bytes`);
+      }
+
+      const keyLength = masked ? 4 : 0;
+      if (buffer.length < pos + keyLength + length) break;
+
+      const data = buffer.subarray(pos + keyLength, pos + keyLength + length);
+      const payload = masked ? this.unmask(data, buffer.subarray(pos, pos + 4)) : Buffer.from(data);
+      frames.push({ fin, opcode, masked, payload });
+      offset = pos + keyLength + length;
+    }
+
+    return { frames, rest: buffer.subarray(offset) };
+  }
+
+  /**
+   * XOR with the 4-byte key (masking and unmasking are the same operation)
+   */
+  private static unmask(data: Buffer, key: Buffer): Buffer {
+    const result = Buffer.alloc(data.length);
+    for (let i = 0; i < data.length; i++) {
+      result[i] = data[i] ^ key[i % 4];
+    }
+    return result;
+  }
+}
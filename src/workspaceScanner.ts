@@ -0,0 +1,491 @@
+// workspaceScanner.ts - Parallel on-disk workspace scan with a per-session result cache (no vscode dependency)
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { Worker } from 'worker_threads';
+import { CodePatcher, HunkResult, IndentStyle, Match, PatchOptions } from './codePatcher';
+import { GitIgnore } from './gitIgnore';
+import { LineNormalizer } from './lineNormalizer';
+import { NearMissAnalyzer, NearMissReport } from './nearMiss';
+import { Glob } from './glob';
+import { WorkspaceSearch } from './workspaceSearch';
+
+export interface ScanRequest {
+  roots: string[]; // Absolute folder paths
+  include: string;
+  exclude: string;
+  maxFiles: number;
+  maxFileSize: number;
+  respectGitIgnore: boolean;
+  pathHint?: string;
+  codeBlock: string;
+  options: PatchOptions;
+  overrides?: Map<string, string>;               // Unsaved editor text by absolute path
+  indentStyles?: Record<string, IndentStyle>;    // Editor indentation by absolute path
+  allMatches?: boolean;                          // Every non-overlapping match per file, not just the best
+  scope?: string[];                              // Absolute files or folders to limit the scan to
+}
+
+export interface ScanHit {
+  file: string;
+  text: string;
+  match: Match; // Best match in the file (with allMatches, one hit per match)
+  hunks?: HunkResult[];
+  pathScore?: number; // Fit to the path hint, see WorkspaceSearch.pathHintScore
+}
+
+export interface ScanSummary {
+  files: number;   // Files considered after globs, .gitignore and the path hint
+  cached: number;  // Files answered from the cache without reading them
+  skipped: number; // Binary, too large or unreadable
+  hits: ScanHit[];
+}
+
+export interface FileNearMisses {
+  file: string;
+  text: string;
+  report: NearMissReport;
+}
+
+export interface ScanJob {
+  file: string;
+  text?: string; // Given for unsaved documents; otherwise read from disk
+}
+
+export interface ScanBatch {
+  id: number;
+  jobs: ScanJob[];
+  codeBlock: string;
+  options: PatchOptions;
+  indentStyles: Record<string, IndentStyle>;
+  maxFileSize: number;
+  allMatches: boolean;
+}
+
+export interface FileScan {
+  file: string;
+  hash?: string;
+  skipped?: 'binary' | 'large' | 'unreadable';
+  matches?: Match[]; // Best first; only the best unless the request asks for all
+  hunks?: HunkResult[];
+  text?: string; // Only returned for files with a match
+}
+
+type CachedResult = Pick<FileScan, 'skipped' | 'matches' | 'hunks'>;
+
+/**
+ * Reads workspace files straight from disk (or from unsaved documents),
+ * honours .gitignore, skips binaries and spreads matching over worker threads.
+ *
+ * One instance lives for the whole session: content hashes are cached by
+ * mtime/size and match results by content hash and block, so pasting the same
+ * block again only re-matches files that changed.
+ */
+export class WorkspaceScanner {
+  static readonly PARALLEL_THRESHOLD = 64; // Below this many files, matching runs inline
+  static readonly BATCH_SIZE = 32;
+  static readonly MAX_CACHED_RESULTS = 20_000;
+  static readonly BINARY_SNIFF_BYTES = 8000;
+  static readonly SIMILAR_PATH_SCORE = 0.6; // Scan files this close to the path hint even outside include globs
+
+  private readonly hashes = new Map<string, { mtimeMs: number; size: number; hash: string }>();
+  private readonly results = new Map<string, CachedResult>();
+
+  /**
+   * `log` receives problems worth a line in the output channel
+   */
+  constructor(
+    private readonly log: (message: string) => void = () => {},
+    private readonly workerScript: string = path.join(__dirname, 'scanWorker.js')
+  ) {}
+
+  async scan(
+    request: ScanRequest,
+    progress?: (done: number, total: number) => void,
+    isCancelled: () => boolean = () => false
+  ): Promise<ScanSummary> {
+    const files = await this.listFiles(request);
+    const blockKey = createHash('sha1')
+      .update(request.codeBlock)
+      .update(JSON.stringify(request.options))
+      .update(request.allMatches ? '\0all' : '')
+      .digest('hex');
+
+    const summary: ScanSummary = { files: files.length, cached: 0, skipped: 0, hits: [] };
+    const jobs: ScanJob[] = [];
+    const stats = new Map<string, { mtimeMs: number; size: number }>();
+
+    // Answer unchanged files from the cache; queue the rest
+    for (const file of files) {
+      const unsaved = request.overrides?.get(file);
+
+      let hash: string | undefined;
+      if (unsaved !== undefined) {
+        hash = WorkspaceScanner.hash(unsaved);
+      } else {
+        try {
+          const stat = await fs.promises.stat(file);
+          if (stat.size > request.maxFileSize) {
+            summary.skipped++;
+            continue;
+          }
+          stats.set(file, { mtimeMs: stat.mtimeMs, size: stat.size });
+          const known = this.hashes.get(file);
+          if (known && known.mtimeMs === stat.mtimeMs && known.size === stat.size) {
+            hash = known.hash;
+          }
+        } catch {
+          summary.skipped++;
+          continue;
+        }
+      }
+
+      const cached = hash !== undefined
+        ? this.results.get(WorkspaceScanner.resultKey(hash, blockKey, WorkspaceScanner.fileOptions(request.options, file, request.indentStyles)))
+        : undefined;
+      // Cached hits carry no text; a file that changed since its stat is scanned again
+      const text = cached?.matches?.length && unsaved === undefined ? await WorkspaceScanner.readIfHash(file, hash!) : unsaved;
+      if (cached && (text !== undefined || !cached.matches?.length)) {
+        summary.cached++;
+        await this.collect(request, summary, { file, ...cached }, text);
+      } else {
+        if (cached) this.hashes.delete(file);
+        jobs.push({ file, text: unsaved });
+      }
+    }
+
+    const batches: ScanBatch[] = [];
+    for (let i = 0; i < jobs.length; i += WorkspaceScanner.BATCH_SIZE) {
+      batches.push({
+        id: batches.length,
+        jobs: jobs.slice(i, i + WorkspaceScanner.BATCH_SIZE),
+        codeBlock: request.codeBlock,
+        options: request.options,
+        indentStyles: request.indentStyles ?? {},
+        maxFileSize: request.maxFileSize,
+        allMatches: !!request.allMatches
+      });
+    }
+
+    let done = files.length - jobs.length;
+    progress?.(done, files.length);
+    const finished = new Set<number>();
+    const onBatch = async (id: number, results: FileScan[]) => {
+      finished.add(id);
+      for (const result of results) {
+        this.remember(result, stats.get(result.file), blockKey, WorkspaceScanner.fileOptions(request.options, result.file, request.indentStyles));
+        await this.collect(request, summary, result, result.text);
+      }
+      done += results.length;
+      progress?.(done, files.length);
+    };
+
+    // Custom normalisation steps are functions and cannot be sent to workers
+    const portable = !request.options.normalization?.some(step => typeof step !== 'string');
+    if (jobs.length >= WorkspaceScanner.PARALLEL_THRESHOLD && portable) {
+      try {
+        await this.runInWorkers(batches, onBatch, isCancelled);
+      } catch (err) {
+        // No worker support (or a worker died): finish the remaining batches inline
+        this.log(`Scan workers failed, continuing inline: ${err instanceof Error ? err.message : String(err)}`);
+      }
+    }
+    for (const batch of batches) {
+      if (isCancelled()) break;
+      if (finished.has(batch.id)) continue;
+      await onBatch(batch.id, WorkspaceScanner.scanBatch(batch));
+      await new Promise(r => setImmediate(r));
+    }
+
+    summary.hits.sort((a, b) => WorkspaceSearch.compareCandidates(a, b));
+    return summary;
+  }
+
+  /**
+   * Files to scan: with a path hint, the files at that path when any exist
+   * (regardless of include globs); otherwise included files up to maxFiles,
+   * plus files whose name fits the hint. A scope limits all of them.
+   */
+  async listFiles(request: ScanRequest): Promise<string[]> {
+    const isIncluded = Glob.matcher(request.include);
+    const isExcluded = Glob.matcher(request.exclude);
+    const scope = request.scope?.map(p => path.resolve(p));
+    const inScope = (full: string, isDirectory: boolean) => !scope || scope.some(s =>
+      full === s || full.startsWith(s + path.sep) || (isDirectory && s.startsWith(full + path.sep)));
+    const included: string[] = [];
+    const hinted: string[] = [];
+    const similar: string[] = [];
+
+    const walk = async (root: string, dir: string, ignore: GitIgnore): Promise<void> => {
+      let entries: fs.Dirent[];
+      try {
+        entries = await fs.promises.readdir(dir, { withFileTypes: true });
+      } catch {
+        return;
+      }
+      entries.sort((a, b) => a.name.localeCompare(b.name));
+
+      const relDir = path.relative(root, dir).split(path.sep).join('/');
+      if (request.respectGitIgnore && entries.some(e => e.isFile() && e.name === '.gitignore')) {
+        try {
+          ignore = ignore.extend(await fs.promises.readFile(path.join(dir, '.gitignore'), 'utf8'), relDir);
+        } catch {
+          // Unreadable .gitignore: keep the rules we have
+        }
+      }
+
+      for (const entry of entries) {
+        if (included.length >= request.maxFiles && !request.pathHint) return;
+
+        const full = path.join(dir, entry.name);
+        const rel = relDir ? `${relDir}/${entry.name}` : entry.name;
+        if (isExcluded(rel) || ignore.ignores(rel, entry.isDirectory()) || !inScope(full, entry.isDirectory())) continue;
+
+        if (entry.isDirectory()) {
+          await walk(root, full, ignore);
+        } else if (entry.isFile()) {
+          const pathScore = request.pathHint ? WorkspaceSearch.pathHintScore(rel, request.pathHint) : 0;
+          if (pathScore === 1) {
+            hinted.push(full);
+          }
+          if (included.length < request.maxFiles && isIncluded(rel)) {
+            included.push(full);
+          } else if (pathScore >= WorkspaceScanner.SIMILAR_PATH_SCORE) {
+            similar.push(full);
+          }
+        }
+      }
+    };
+
+    for (const root of request.roots) {
+      await walk(root, root, GitIgnore.EMPTY);
+    }
+    return hinted.length > 0 ? hinted : [...included, ...similar];
+  }
+
+  /**
+   * Files from the same selection as `scan` whose text matches a pattern,
+   * at most `limit` of them (unsaved editor text wins over the disk)
+   */
+  async findFilesContaining(request: ScanRequest, pattern: RegExp, limit: number): Promise<string[]> {
+    const found: string[] = [];
+    for (const file of await this.listFiles(request)) {
+      if (found.length >= limit) break;
+
+      let text = request.overrides?.get(file);
+      if (text === undefined) {
+        try {
+          const buffer = await fs.promises.readFile(file);
+          if (buffer.byteLength > request.maxFileSize || WorkspaceScanner.isBinary(buffer)) continue;
+          text = buffer.toString('utf8');
+        } catch {
+          continue;
+        }
+      }
+      if (pattern.test(text)) {
+        found.push(file);
+      }
+    }
+    return found;
+  }
+
+  /**
+   * Near misses of a block that matched nowhere, per file, for the files with
+   * the closest regions first (at most `limit` files). Runs inline; this is
+   * only done on request after a scan came up empty.
+   */
+  async findNearMisses(
+    request: ScanRequest,
+    limit: number,
+    isCancelled: () => boolean = () => false
+  ): Promise<FileNearMisses[]> {
+    const found: FileNearMisses[] = [];
+    const files = await this.listFiles(request);
+
+    for (let i = 0; i < files.length && !isCancelled(); i++) {
+      const file = files[i];
+      let text = request.overrides?.get(file);
+      if (text === undefined) {
+        try {
+          const buffer = await fs.promises.readFile(file);
+          if (buffer.byteLength > request.maxFileSize || WorkspaceScanner.isBinary(buffer)) continue;
+          text = buffer.toString('utf8');
+        } catch {
+          continue;
+        }
+      }
+
+      const report = NearMissAnalyzer.analyze(text, request.codeBlock, WorkspaceScanner.fileOptions(request.options, file, request.indentStyles));
+      if (report.nearMisses.length > 0) {
+        found.push({ file, text, report });
+      }
+      if (i % WorkspaceScanner.BATCH_SIZE === 0) {
+        await new Promise(r => setImmediate(r));
+      }
+    }
+
+    const closest = (f: FileNearMisses) => f.report.nearMisses[0].matchedLines / f.report.searched.length;
+    return found.sort((a, b) => closest(b) - closest(a)).slice(0, limit);
+  }
+
+  /**
+   * Forget everything (e.g. after settings that affect matching change)
+   */
+  clear() {
+    this.hashes.clear();
+    this.results.clear();
+  }
+
+  /**
+   * Read, sniff, hash and match one batch of files. Runs in worker threads,
+   * or inline for small scans.
+   */
+  static scanBatch(batch: ScanBatch): FileScan[] {
+    return batch.jobs.map((job) => {
+      let text = job.text;
+      if (text === undefined) {
+        let buffer: Buffer;
+        try {
+          buffer = fs.readFileSync(job.file);
+        } catch {
+          return { file: job.file, skipped: 'unreadable' as const };
+        }
+        if (buffer.byteLength > batch.maxFileSize) {
+          return { file: job.file, skipped: 'large' as const };
+        }
+        if (this.isBinary(buffer)) {
+          return { file: job.file, hash: this.hash(buffer), skipped: 'binary' as const };
+        }
+        text = buffer.toString('utf8');
+      }
+
+      const hash = this.hash(text);
+      const result = CodePatcher.patch(text, batch.codeBlock, this.fileOptions(batch.options, job.file, batch.indentStyles));
+      if (!result.success || result.matches.length === 0) {
+        return { file: job.file, hash };
+      }
+      const matches = batch.allMatches ? CodePatcher.nonOverlapping(result.matches) : [result.matches[0]];
+      return { file: job.file, hash, matches, hunks: result.hunks, text };
+    });
+  }
+
+  /**
+   * Options for matching in one file: the editor's indentation when known,
+   * and the language (for normalisation) from the file extension
+   */
+  static fileOptions(options: PatchOptions, file: string, indentStyles?: Record<string, IndentStyle>): PatchOptions {
+    const indentStyle = indentStyles?.[file] ?? options.indentStyle;
+    const languageId = options.languageId ?? LineNormalizer.languageForPath(file);
+    return { ...options, indentStyle, languageId };
+  }
+
+  /**
+   * Git's heuristic: a NUL byte near the start means binary
+   */
+  static isBinary(buffer: Buffer): boolean {
+    return buffer.subarray(0, this.BINARY_SNIFF_BYTES).includes(0);
+  }
+
+  static hash(content: string | Buffer): string {
+    return createHash('sha1').update(content).digest('hex');
+  }
+
+  private async runInWorkers(
+    batches: ScanBatch[],
+    onBatch: (id: number, results: FileScan[]) => Promise<void>,
+    isCancelled: () => boolean
+  ): Promise<void> {
+    const poolSize = Math.max(1, Math.min(4, os.cpus().length - 1, batches.length));
+    const queue = [...batches];
+    const workers: Worker[] = [];
+    let failed = false;
+    let pending = Promise.resolve();
+
+    const runWorker = () => new Promise<void>((resolve, reject) => {
+      const worker = new Worker(this.workerScript);
+      workers.push(worker);
+      const next = () => {
+        const batch = isCancelled() ? undefined : queue.shift();
+        if (!batch) {
+          void worker.terminate().then(() => resolve());
+          return;
+        }
+        worker.postMessage(batch);
+      };
+
+      worker.on('message', ({ id, results }: { id: number; results: FileScan[] }) => {
+        // After a failure the unfinished batches are rescanned inline, so late results must not count twice
+        if (failed) return;
+        // Results are folded in one batch at a time, in arrival order
+        pending = pending.then(() => onBatch(id, results));
+        next();
+      });
+      worker.on('error', (err) => {
+        failed = true;
+        reject(err);
+      });
+      next();
+    });
+
+    try {
+      await Promise.all(Array.from({ length: poolSize }, runWorker));
+    } catch (err) {
+      // Stop every worker, not just the one that failed, before the caller falls back
+      failed = true;
+      await Promise.all(workers.map(w => w.terminate()));
+      throw err;
+    } finally {
+      await pending;
+    }
+  }
+
+  private remember(result: FileScan, stat: { mtimeMs: number; size: number } | undefined, blockKey: string, options: PatchOptions) {
+    if (!result.hash || result.skipped === 'unreadable') return;
+    if (stat) {
+      this.hashes.set(result.file, { ...stat, hash: result.hash });
+    }
+
+    if (this.results.size >= WorkspaceScanner.MAX_CACHED_RESULTS) {
+      // Maps iterate in insertion order, so this drops the oldest entry
+      this.results.delete(this.results.keys().next().value!);
+    }
+    this.results.set(WorkspaceScanner.resultKey(result.hash, blockKey, options), {
+      skipped: result.skipped,
+      matches: result.matches,
+      hunks: result.hunks
+    });
+  }
+
+  private static resultKey(hash: string, blockKey: string, options: PatchOptions): string {
+    return `${hash}\0${blockKey}\0${JSON.stringify(options.indentStyle ?? null)}\0${options.languageId ?? ''}`;
+  }
+
+  /**
+   * A file's text, unless it no longer has the content hash the cached result is for
+   */
+  private static async readIfHash(file: string, hash: string): Promise<string | undefined> {
+    try {
+      const text = await fs.promises.readFile(file, 'utf8');
+      return this.hash(text) === hash ? text : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private async collect(request: ScanRequest, summary: ScanSummary, result: FileScan, text?: string) {
+    if (result.skipped) {
+      summary.skipped++;
+      return;
+    }
+    if (!result.matches?.length || text === undefined) return;
+
+    const root = request.roots.find(r => result.file.startsWith(r + path.sep)) ?? path.dirname(result.file);
+    const rel = path.relative(root, result.file).split(path.sep).join('/');
+    const pathScore = request.pathHint ? WorkspaceSearch.pathHintScore(rel, request.pathHint) : undefined;
+    for (const match of result.matches) {
+      summary.hits.push({ file: result.file, text, match, hunks: result.hunks, pathScore });
+    }
+  }
+}
@@ -0,0 +1,118 @@
+// workspaceSearch.ts - Workspace scan settings and candidate ranking shared by the extension and CLI
+
+import { Match } from './codePatcher';
+
+export interface SearchSettings {
+  include: string;
+  exclude: string;
+  maxFiles: number;
+  maxFileSize: number;       // Bytes; larger files are skipped
+  respectGitIgnore: boolean; // Skip files ignored by .gitignore
+  symbolMatch: boolean;      // Match whole-declaration blocks against document symbols
+  autoApplySingleMatch: boolean;
+  tieBreakDelta: number; // Confidence difference considered a "tie"
+}
+
+export interface RankedCandidate {
+  match: Match;
+  pathScore?: number;    // Fit to the block's path hint, see pathHintScore
+  contextScore?: number; // Editor context boosts, see ContextRanking
+}
+
+export class WorkspaceSearch {
+  static readonly DEFAULT_INCLUDE = '**/*.{ts,tsx,js,jsx,mjs,cjs,php,py,rb,go,java,cs,cpp,c,h,html,css,scss,json,md,xml,yaml,yml,ini,sh,bat,ps1}';
+  static readonly DEFAULT_EXCLUDE = '{**/node_modules/**,**/.git/**,**/out/**,**/dist/**,**/build/**,**/.cache/**,**/.next/**,**/.parcel-cache/**,**/.turbo/**,**/vendor/**,**/languages/**,**/data/**,**/media/**}';
+  static readonly DEFAULT_MAX_FILES = 2000;
+  static readonly DEFAULT_TIE_BREAK_DELTA = 0.03;
+  static readonly MAX_FILE_SIZE = 2_000_000; // ~2MB guard
+  static readonly PATH_HINT_BOOST = 0.25;    // Added to confidence for a full path hint match
+
+  /**
+   * Allow both string and string[] for include/exclude globs
+   */
+  static joinGlobs(globs: string | string[]): string {
+    return Array.isArray(globs) ? `{${globs.join(',')}}` : globs;
+  }
+
+  /**
+   * Confidence plus the path hint boost, used for ranking candidates
+   */
+  static rankScore(candidate: { match: Match; pathScore?: number }): number {
+    return candidate.match.confidence + this.PATH_HINT_BOOST * (candidate.pathScore ?? 0);
+  }
+
+  /**
+   * Sort order for candidates: rank score plus editor context boosts (desc),
+   * then context lines matched (desc)
+   */
+  static compareCandidates(a: RankedCandidate, b: RankedCandidate): number {
+    const diff = this.rankScore(b) + (b.contextScore ?? 0) - this.rankScore(a) - (a.contextScore ?? 0);
+    if (Math.abs(diff) > 1e-6) return diff;
+    return (b.match.contextMatchLength ?? 0) - (a.match.contextMatchLength ?? 0);
+  }
+
+  /**
+   * True when the best two candidates by rank score are too close to pick one
+   * automatically. Editor context boosts do not count: they reorder, but only
+   * the block itself can make one location the right one.
+   */
+  static hasCloseTie(candidates: RankedCandidate[], tieBreakDelta: number): boolean {
+    const scores = candidates.map(c => this.rankScore(c)).sort((a, b) => b - a);
+    return scores.length > 1 && scores[0] - scores[1] < tieBreakDelta;
+  }
+
+  /**
+   * The candidate to apply without asking: the best by rank score, whatever
+   * the context boosts put first
+   */
+  static best<T extends RankedCandidate>(candidates: T[]): T | undefined {
+    return candidates.reduce<T | undefined>((best, c) => !best || this.rankScore(c) > this.rankScore(best) + 1e-6 ? c : best, undefined);
+  }
+
+  /**
+   * Does a workspace-relative path end with the hinted path?
+   */
+  static matchesPathHint(relativePath: string, pathHint: string): boolean {
+    const rel = relativePath.replace(/\\/g, '/');
+    const hint = pathHint.replace(/\\/g, '/').replace(/^\.?\//, '');
+    return rel === hint || rel.endsWith('/' + hint);
+  }
+
+  /**
+   * How well a workspace-relative path fits a (possibly partial) path hint, 0..1.
+   * 1 for a suffix match; otherwise the basename has to agree and matching
+   * parent folders (from the end, in order) raise the score.
+   */
+  static pathHintScore(relativePath: string, pathHint: string): number {
+    if (this.matchesPathHint(relativePath, pathHint)) return 1;
+
+    const rel = relativePath.replace(/\\/g, '/').toLowerCase().split('/');
+    const hint = pathHint.replace(/\\/g, '/').replace(/^\.?\//, '').toLowerCase().split('/').filter(Boolean);
+    const relName = rel.pop() ?? '';
+    const hintName = hint.pop() ?? '';
+
+    let score: number;
+    let best: number;
+    if (relName === hintName) {
+      [score, best] = [0.6, 0.95];
+    } else if (relName.replace(/\.[^.]*$/, '') === hintName.replace(/\.[^.]*$/, '') && relName.includes('.')) {
+      [score, best] = [0.3, 0.5]; // Same name, other extension (e.g. foo.js for foo.ts)
+    } else {
+      return 0;
+    }
+
+    if (hint.length === 0) return score;
+
+    // Hint folders found among the path's folders, walking both from the end
+    let matched = 0;
+    let r = rel.length - 1;
+    for (let h = hint.length - 1; h >= 0 && r >= 0; h--) {
+      const found = rel.lastIndexOf(hint[h], r);
+      if (found >= 0) {
+        matched++;
+        r = found - 1;
+      }
+    }
+    return score + (best - score) * (matched / hint.length);
+  }
+}